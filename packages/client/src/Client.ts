@@ -0,0 +1,92 @@
+import type { SyncMethod } from "jdex";
+// Local
+import { ClientTransaction } from "@/ClientTransaction";
+import { RemoteQuery } from "@/RemoteQuery";
+import { HttpTransport, WebSocketTransport } from "@/transports";
+import type {
+  RemoteTransaction,
+  RemoteTransactionCallback,
+  Transport,
+} from "@/types";
+
+export interface ClientOptions {
+  /**
+   * The server url, e.g. `"http://localhost:8080/api"` for the server's
+   * request handler or `"ws://localhost:8080/api/sync"` for it's sync server.
+   * Ignored if a {@link transport} is given.
+   */
+  url?: string;
+  /** A custom transport, e.g. a {@link WebSocketTransport} with options. */
+  transport?: Transport;
+}
+
+/**
+ * A client of a jdex server with the same methods as the server's
+ * `QueryInterface`, called remotely. Each method call runs in a transaction
+ * of it's own, use {@link transaction} to run several calls in one.
+ * @example
+ * const client = new Client({ url: "ws://localhost:8080/api/sync" });
+ * const id = await client.transaction(async (trx) => {
+ *   const pId = await trx.addDirectory("db");
+ *   return trx.addFile("users.json", { data: [], pId });
+ * });
+ */
+export class Client extends RemoteQuery {
+  /** Object name for the default `toString` implementation. */
+  public readonly [Symbol.toStringTag]: string = "Client";
+
+  constructor(options: ClientOptions) {
+    const { transport, url } = options;
+    if (transport) {
+      super(transport);
+    } else if (!url) {
+      throw new Error("Expected a url or transport.");
+    } else {
+      super(
+        /^wss?:/.test(url)
+          ? new WebSocketTransport(url)
+          : new HttpTransport(url),
+      );
+    }
+  }
+
+  /** Closes any connection to the server. */
+  close() {
+    this.transport.close();
+  }
+
+  protected async call(method: SyncMethod, args: unknown[]): Promise<any> {
+    return this.transport.call(method, args);
+  }
+
+  /**
+   * Runs the callback in a transaction on the server. Other transactions on
+   * the server wait until this one is completed, so keep it short. The
+   * transaction is committed when the callback returns, or rolled back if it
+   * throws.
+   */
+  async transaction<T>(cb: RemoteTransactionCallback<T>): Promise<T> {
+    const { transport } = this;
+    const trx: RemoteTransaction = new ClientTransaction(
+      transport,
+      await transport.begin(),
+    );
+    try {
+      const value = await cb(trx);
+      if (!trx.completed) {
+        await trx.commit();
+      }
+      return value;
+    } catch (ex) {
+      if (!trx.completed) {
+        // Throw the original error, e.g. if the server already rolled back.
+        await trx.rollback().catch(() => undefined);
+      }
+      throw ex;
+    }
+  }
+
+  async update<T = any>(id: string, fn: (data: T) => T | void): Promise<T> {
+    return this.transaction((trx) => trx.update(id, fn));
+  }
+}
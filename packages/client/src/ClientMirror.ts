@@ -0,0 +1,401 @@
+import {
+  immutableJSONPatch,
+  type JSONPatchDocument,
+} from "immutable-json-patch";
+import type { NodeInfo, SyncChange, SyncMutation } from "jdex";
+// Local
+import { visitNodes } from "@/nodes";
+import type { WebSocketTransport } from "@/transports";
+import type {
+  MapNodeInfoFn,
+  NodeVisitorFn,
+  PatchOperation,
+  PatchResult,
+} from "@/types";
+
+export interface ClientMirrorOptions {
+  /** Id of the directory to mirror the nodes within, or `null` for all. */
+  within?: string | null;
+}
+
+/**
+ * An immutable snapshot of the mirrored nodes and file content, replaced on
+ * each change. Suitable for `useSyncExternalStore` in React, for example.
+ */
+export interface MirrorSnapshot {
+  /** Incremented with each change. */
+  readonly version: number;
+  /** Nodes by id. */
+  readonly nodes: ReadonlyMap<string, NodeInfo>;
+  /** Content of the loaded files by id. See {@link ClientMirror.load}. */
+  readonly content: ReadonlyMap<string, unknown>;
+}
+
+/** Mirrored nodes and file content. */
+interface MirrorState {
+  nodes: Map<string, NodeInfo>;
+  content: Map<string, unknown>;
+}
+
+/** Mutations applied optimistically, awaiting the server. */
+interface PendingMutations {
+  /** Id of the `mutate` message. */
+  id: number;
+  mutations: SyncMutation[];
+}
+
+/**
+ * A local mirror of the server's nodes and file content, kept current from
+ * the server's change events, so that reads don't wait for the server.
+ *
+ * Mutations apply optimistically: they show in the mirror right away and are
+ * undone if the server rejects them. Subscribe to be notified of every change
+ * to the mirror, whether made locally, by other clients or by other programs.
+ *
+ * @example
+ * const mirror = new ClientMirror(new WebSocketTransport(url));
+ * await mirror.open();
+ * const snapshot = useSyncExternalStore(mirror.subscribe, () => mirror.snapshot);
+ * mirror.eachNode(null, (node, { depth }) => console.log(depth, node.path));
+ */
+export class ClientMirror {
+  /** Object name for the default `toString` implementation. */
+  public readonly [Symbol.toStringTag]: string = "ClientMirror";
+  /** The transport of the server's change events. */
+  public readonly transport: WebSocketTransport;
+  /** Id of the directory mirrored, or `null` for all nodes. */
+  public readonly within: string | null;
+
+  /** State confirmed by the server. */
+  private _confirmed: MirrorState = { nodes: new Map(), content: new Map() };
+  private _listeners = new Set<() => void>();
+  /** Node ids by path, in the current snapshot. */
+  private _paths = new Map<string, string>();
+  /** Mutations awaiting the server, in the order sent. */
+  private _pending: PendingMutations[] = [];
+  private _snapshot: MirrorSnapshot = {
+    version: 0,
+    nodes: new Map(),
+    content: new Map(),
+  };
+  /** Nodes of the current snapshot sorted by name, for {@link eachNode}. */
+  private _sorted: NodeInfo[] = [];
+  /** The subscription id, while open. */
+  private _sub: number | undefined;
+
+  constructor(
+    transport: WebSocketTransport,
+    options: ClientMirrorOptions = {},
+  ) {
+    this.transport = transport;
+    this.within = options.within ?? null;
+  }
+
+  /** The current snapshot, including mutations awaiting the server. */
+  get snapshot() {
+    return this._snapshot;
+  }
+
+  // #region Lifecycle
+  /**
+   * Subscribes to the server's changes and loads the nodes. Call again after
+   * the connection was lost to load the current nodes.
+   */
+  async open() {
+    const { nodes, sub } = await this.transport.subscribe(
+      this.within,
+      (changes, re) => this.receive(changes, re),
+    );
+    this._sub = sub;
+    this._confirmed = {
+      nodes: new Map(nodes.map((node) => [node.id, node])),
+      content: new Map(),
+    };
+    this.update();
+  }
+
+  /** Unsubscribes from the server's changes. */
+  async close() {
+    const sub = this._sub;
+    if (sub !== undefined) {
+      this._sub = undefined;
+      await this.transport.unsubscribe(sub);
+    }
+  }
+  // #endregion
+
+  // #region Subscriptions
+  /**
+   * Calls the listener after each change to the {@link snapshot}. Returns a
+   * function to unsubscribe.
+   */
+  subscribe = (listener: () => void) => {
+    this._listeners.add(listener);
+    return () => {
+      this._listeners.delete(listener);
+    };
+  };
+
+  /** Applies changes from the server, confirming the mutations of `re`. */
+  private receive(changes: SyncChange[], re?: number) {
+    for (const change of changes) {
+      applyChange(this._confirmed, change);
+    }
+    if (re !== undefined) {
+      this._pending = this._pending.filter((it) => it.id !== re);
+    }
+    this.update();
+  }
+
+  /** Replaces the snapshot with the confirmed state plus pending mutations. */
+  private update() {
+    const state: MirrorState = {
+      nodes: new Map(this._confirmed.nodes),
+      content: new Map(this._confirmed.content),
+    };
+    for (const { mutations } of this._pending) {
+      for (const mutation of mutations) {
+        try {
+          applyMutation(state, mutation);
+        } catch (ex) {
+          // The server will reject it too, e.g. an invalid patch.
+        }
+      }
+    }
+    this._snapshot = { version: this._snapshot.version + 1, ...state };
+    this._sorted = [...state.nodes.values()].sort(orderByName);
+    this._paths = new Map(this._sorted.map((node) => [node.path, node.id]));
+    for (const listener of this._listeners) {
+      listener();
+    }
+  }
+  // #endregion
+
+  // #region Reads
+  /**
+   * Traverses the mirrored tree in depth-first order calling the given
+   * callback for each node, the same as the server's `eachNode`. Pass `null`
+   * to start from the {@link within} directory, if any.
+   */
+  eachNode<T = NodeInfo>(
+    withinId: string | null,
+    visitor: NodeVisitorFn<T>,
+    mapNodeAs?: MapNodeInfoFn<T>,
+  ) {
+    visitNodes(this._sorted, withinId ?? this.within, visitor, mapNodeAs);
+  }
+
+  /**
+   * Returns the loaded content of the given file id, or `undefined` if not
+   * loaded. See {@link load}.
+   */
+  get<T = any>(id: string): T | undefined {
+    return this._snapshot.content.get(id) as T | undefined;
+  }
+
+  /** Returns the id of the given path or `undefined` if not found. */
+  id(path: string) {
+    return this._paths.get(path);
+  }
+
+  /**
+   * Loads the content of the given file id from the server, if not already
+   * loaded, and keeps it current from then on.
+   */
+  async load<T = any>(id: string): Promise<T | undefined> {
+    if (!this._confirmed.content.has(id)) {
+      const [content] = await this.transport.request({
+        type: "get",
+        ids: [id],
+      });
+      if (content !== undefined && this._confirmed.nodes.has(id)) {
+        this._confirmed.content.set(id, content);
+        this.update();
+      }
+    }
+    return this.get<T>(id);
+  }
+
+  /** Returns the node of the given id or `undefined` if not found. */
+  node(id: string) {
+    return this._snapshot.nodes.get(id);
+  }
+
+  /** Returns the path of the given node id or `undefined` if not found. */
+  path(id: string) {
+    return this._snapshot.nodes.get(id)?.path;
+  }
+  // #endregion
+
+  // #region Mutations
+  /**
+   * Runs mutations in a transaction on the server and returns the result of
+   * each. The mutations apply to the mirror right away, and are undone if the
+   * server rejects them. Added directories and files show once the server has
+   * added them, since their ids are made by the server.
+   */
+  async mutate(mutations: SyncMutation[]): Promise<unknown[]> {
+    const { id, reply } = this.transport.send({ type: "mutate", mutations });
+    const pending: PendingMutations = { id, mutations };
+    this._pending.push(pending);
+    this.update();
+    try {
+      return await reply;
+    } finally {
+      // Still pending when rejected, or when the server had no changes.
+      if (this._pending.includes(pending)) {
+        this._pending = this._pending.filter((it) => it !== pending);
+        this.update();
+      }
+    }
+  }
+
+  /** Adds a directory and returns it's new id. */
+  async addDirectory(name: string, pId?: string | null): Promise<string> {
+    const [id] = await this.mutate([{ op: "addDirectory", name, pId }]);
+    return id as string;
+  }
+
+  /** Adds a file and returns it's new id. */
+  async addFile(
+    name: string,
+    info: { data: unknown; pId?: string | null },
+  ): Promise<string> {
+    const [id] = await this.mutate([{ op: "addFile", name, ...info }]);
+    return id as string;
+  }
+
+  /** Moves a directory or file into a new parent and returns the new path. */
+  async move(id: string, toId: string | null): Promise<string> {
+    const [path] = await this.mutate([{ op: "move", id, toId }]);
+    return path as string;
+  }
+
+  /** Applies JSON Patch operations to the content of the given file id. */
+  async patch(id: string, patch: PatchOperation[]): Promise<PatchResult> {
+    const [result] = await this.mutate([{ op: "patch", id, patch }]);
+    return result as PatchResult;
+  }
+
+  /** Removes a directory or file returning `true` if successful. */
+  async remove(id: string): Promise<boolean> {
+    const [removed] = await this.mutate([{ op: "remove", id }]);
+    return removed as boolean;
+  }
+
+  /** Renames a directory or file and returns the new path. */
+  async rename(id: string, name: string): Promise<string> {
+    const [path] = await this.mutate([{ op: "rename", id, name }]);
+    return path as string;
+  }
+
+  /** Writes the content of the given file id. */
+  async write(id: string, data: unknown): Promise<void> {
+    await this.mutate([{ op: "write", id, data }]);
+  }
+  // #endregion
+}
+
+/** Applies a change from the server to the state. */
+function applyChange(state: MirrorState, change: SyncChange) {
+  const { node } = change;
+  switch (change.type) {
+    case "added":
+      state.nodes.set(node.id, node);
+      break;
+    case "changed":
+      state.nodes.set(node.id, node);
+      if (state.content.has(node.id)) {
+        state.content.set(
+          node.id,
+          immutableJSONPatch(
+            state.content.get(node.id),
+            change.patch as JSONPatchDocument,
+          ),
+        );
+      }
+      break;
+    case "moved":
+    case "renamed":
+      setNodePath(state, node, change.from);
+      break;
+    case "removed":
+      removeNode(state, node);
+      break;
+  }
+}
+
+/** Applies a mutation to the state, as the server is expected to. */
+function applyMutation(state: MirrorState, mutation: SyncMutation) {
+  if (mutation.op === "addDirectory" || mutation.op === "addFile") {
+    return;
+  }
+  const node = state.nodes.get(mutation.id);
+  if (!node) {
+    return;
+  }
+  switch (mutation.op) {
+    case "move": {
+      const { toId } = mutation;
+      const parent = toId ? state.nodes.get(toId) : undefined;
+      if (toId && !parent) {
+        return;
+      }
+      const path = parent ? `${parent.path}/${node.name}` : node.name;
+      setNodePath(state, { ...node, pId: toId ?? undefined, path }, node.path);
+      break;
+    }
+    case "patch":
+      if (state.content.has(node.id)) {
+        state.content.set(
+          node.id,
+          immutableJSONPatch(
+            state.content.get(node.id),
+            mutation.patch as JSONPatchDocument,
+          ),
+        );
+      }
+      break;
+    case "remove":
+      removeNode(state, node);
+      break;
+    case "rename": {
+      const { name } = mutation;
+      const parentPath = node.path.substring(0, node.path.lastIndexOf("/") + 1);
+      setNodePath(state, { ...node, name, path: parentPath + name }, node.path);
+      break;
+    }
+    case "write":
+      state.content.set(node.id, mutation.data);
+      break;
+  }
+}
+
+function orderByName(a: NodeInfo, b: NodeInfo) {
+  return a.name > b.name ? 1 : b.name > a.name ? -1 : 0;
+}
+
+/** Removes a node and all nodes within it. */
+function removeNode(state: MirrorState, node: NodeInfo) {
+  const prefix = node.path + "/";
+  for (const it of [...state.nodes.values()]) {
+    if (it.id === node.id || it.path.startsWith(prefix)) {
+      state.nodes.delete(it.id);
+      state.content.delete(it.id);
+    }
+  }
+}
+
+/** Sets a moved or renamed node and the paths of all nodes within it. */
+function setNodePath(state: MirrorState, node: NodeInfo, from: string) {
+  state.nodes.set(node.id, node);
+  const prefix = from + "/";
+  for (const it of [...state.nodes.values()]) {
+    if (it.path.startsWith(prefix)) {
+      state.nodes.set(it.id, {
+        ...it,
+        path: node.path + it.path.substring(from.length),
+      });
+    }
+  }
+}
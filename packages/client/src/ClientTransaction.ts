@@ -0,0 +1,59 @@
+import type { SyncMethod } from "jdex";
+// Local
+import { RemoteQuery } from "@/RemoteQuery";
+import type { RemoteTransaction, Transport } from "@/types";
+
+/** A transaction running on the server, controlled by the client. */
+export class ClientTransaction
+  extends RemoteQuery
+  implements RemoteTransaction
+{
+  /** Object name for the default `toString` implementation. */
+  public readonly [Symbol.toStringTag]: string = "ClientTransaction";
+  /** The remote transaction id. */
+  public readonly trxId: string;
+
+  private _completed = false;
+
+  constructor(transport: Transport, trxId: string) {
+    super(transport);
+    this.trxId = trxId;
+  }
+
+  get completed() {
+    return this._completed;
+  }
+
+  async commit() {
+    this.assertActive();
+    this._completed = true;
+    await this.transport.commit(this.trxId);
+  }
+
+  async rollback() {
+    this.assertActive();
+    this._completed = true;
+    await this.transport.rollback(this.trxId);
+  }
+
+  private assertActive() {
+    if (this._completed) {
+      throw new Error("Transaction already completed.");
+    }
+  }
+
+  protected async call(method: SyncMethod, args: unknown[]): Promise<any> {
+    this.assertActive();
+    return this.transport.call(method, args, this.trxId);
+  }
+
+  async update<T = any>(id: string, fn: (data: T) => T | void): Promise<T> {
+    const data = await this.get<T>(id);
+    if (data === undefined) {
+      throw new Error(`File not found - "${id}"`);
+    }
+    const updated = fn(data) ?? data;
+    await this.write(id, updated);
+    return updated;
+  }
+}
@@ -0,0 +1,100 @@
+import type { NodeInfo, SyncMethod } from "jdex";
+// Local
+import { visitNodes } from "@/nodes";
+import type {
+  MapNodeInfoFn,
+  NodeVisitorFn,
+  PatchOperation,
+  PatchResult,
+  QueryResult,
+  RemoteQueryInterface,
+  Transport,
+} from "@/types";
+
+/**
+ * Implements the {@link RemoteQueryInterface} by calling the server through
+ * a {@link Transport}.
+ */
+export abstract class RemoteQuery implements RemoteQueryInterface {
+  /** The transport used to call the server. */
+  public readonly transport: Transport;
+
+  constructor(transport: Transport) {
+    this.transport = transport;
+  }
+
+  /** Calls a query method on the server. */
+  protected abstract call(method: SyncMethod, args: unknown[]): Promise<any>;
+
+  async addDirectory(name: string, pId?: string | null): Promise<string> {
+    return this.call("addDirectory", [name, pId]);
+  }
+
+  async addFile(
+    name: string,
+    info: { data: unknown; pId?: string | null },
+  ): Promise<string> {
+    return this.call("addFile", [name, info]);
+  }
+
+  async eachNode<T = NodeInfo>(
+    withinId: string | null,
+    visitor: NodeVisitorFn<T>,
+    mapNodeAs?: MapNodeInfoFn<T>,
+  ) {
+    const nodes: NodeInfo[] = await this.call("nodes", [withinId]);
+    visitNodes(nodes, withinId, visitor, mapNodeAs);
+  }
+
+  async get<T = any>(id: string): Promise<T | undefined> {
+    return this.call("get", [id]);
+  }
+
+  async id(path: string): Promise<string | undefined> {
+    return this.call("id", [path]);
+  }
+
+  async lookup(
+    index: string,
+    value: string | number | boolean,
+  ): Promise<string[]> {
+    return this.call("lookup", [index, value]);
+  }
+
+  async move(id: string, toId: string | null): Promise<string> {
+    return this.call("move", [id, toId]);
+  }
+
+  async patch(id: string, operations: PatchOperation[]): Promise<PatchResult> {
+    return this.call("patch", [id, operations]);
+  }
+
+  async path(id: string | null): Promise<string | undefined> {
+    return this.call("path", [id]);
+  }
+
+  async query<T = unknown>(
+    files: string | string[],
+    expression: string,
+  ): Promise<QueryResult<T>[]> {
+    return this.call("query", [files, expression]);
+  }
+
+  async read<T = any>(path: string): Promise<T | undefined> {
+    return this.call("read", [path]);
+  }
+
+  async remove(id: string): Promise<boolean> {
+    return this.call("remove", [id]);
+  }
+
+  async rename(id: string, name: string): Promise<string> {
+    return this.call("rename", [id, name]);
+  }
+
+  abstract update<T = any>(id: string, fn: (data: T) => T | void): Promise<T>;
+
+  async write(id: string, data: unknown): Promise<void> {
+    await this.call("write", [id, data]);
+  }
+}
@@ -0,0 +1,23 @@
+import type { SyncError } from "jdex";
+
+/**
+ * An error thrown by the server, e.g. a `ValidationError` with it's `issues`
+ * in the {@link details}.
+ */
+export class RemoteError extends Error {
+  override readonly name = "RemoteError";
+  /** Extra error details sent by the server. */
+  readonly details: Record<string, unknown>;
+  /** Name of the error thrown by the server, e.g. `"ValidationError"`. */
+  readonly remoteName: string;
+  /** HTTP status code of the response, if any. */
+  readonly status?: number;
+
+  constructor(error: SyncError, status?: number) {
+    const { message, name, ...details } = error;
+    super(message);
+    this.details = details;
+    this.remoteName = name;
+    this.status = status;
+  }
+}
@@ -1,5 +1,7 @@
-export const Client = {
-  hello() {
-    console.log("Client");
-  },
-};
+export * from "./types";
+export * from "./errors";
+export * from "./nodes";
+export * from "./transports";
+export * from "./Client";
+export * from "./ClientTransaction";
+export * from "./ClientMirror";
@@ -0,0 +1,49 @@
+import type { NodeInfo } from "jdex";
+// Local
+import type { MapNodeInfoFn, NodeVisitorFn } from "@/types";
+
+/**
+ * Traverses a depth-first listing of nodes, calling the visitor for each node
+ * within the given directory id (or all nodes when `null`) in depth-first
+ * order, the same as the server's `eachNode`. The visitor returns `true` to
+ * stop, or `false` to skip the children of the visited node.
+ */
+export function visitNodes<T = NodeInfo>(
+  nodes: Iterable<NodeInfo>,
+  withinId: string | null,
+  visitor: NodeVisitorFn<T>,
+  mapNodeAs: MapNodeInfoFn<T> = (node) => node as T,
+) {
+  /** Child nodes by parent id, where root nodes have an empty parent id. */
+  const childrenOf = new Map<string, NodeInfo[]>();
+  for (const node of nodes) {
+    const pId = node.pId ?? "";
+    let children = childrenOf.get(pId);
+    if (!children) {
+      children = [];
+      childrenOf.set(pId, children);
+    }
+    children.push(node);
+  }
+  const visit = (parentId: string, depth: number): boolean => {
+    const children = childrenOf.get(parentId) ?? [];
+    const siblings = children.map(mapNodeAs);
+    for (let order = 0; order < children.length; order++) {
+      const node = children[order]!;
+      const grandChildren = (childrenOf.get(node.id) ?? []).map(mapNodeAs);
+      const returned = visitor(
+        siblings[order]!,
+        { depth, order },
+        siblings,
+        grandChildren,
+      );
+      if (returned === true) {
+        return true;
+      } else if (returned !== false && visit(node.id, depth + 1)) {
+        return true;
+      }
+    }
+    return false;
+  };
+  visit(withinId ?? "", 0);
+}
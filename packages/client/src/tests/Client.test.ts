@@ -0,0 +1,80 @@
+import type { NodeInfo, SyncMethod } from "jdex";
+import { expect, test } from "vitest";
+// Packages
+import { Client, RemoteError, type Transport } from "@/index";
+
+/** A transport which records calls and answers them from a file map. */
+function createTransport(files: Record<string, unknown>) {
+  const log: string[] = [];
+  const transport: Transport = {
+    async begin() {
+      log.push("begin");
+      return "t1";
+    },
+    async call(method: SyncMethod, args: unknown[], trx?: string) {
+      log.push(`${method}${trx ? ` in ${trx}` : ""}`);
+      const [id, data] = args as [string, unknown];
+      switch (method) {
+        case "get":
+          return files[id];
+        case "write":
+          files[id] = data;
+          return;
+        case "nodes":
+          return nodes;
+        default:
+          throw new RemoteError({ name: "Error", message: "Nope" });
+      }
+    },
+    close() {},
+    async commit(trx) {
+      log.push(`commit ${trx}`);
+    },
+    async rollback(trx) {
+      log.push(`rollback ${trx}`);
+    },
+  };
+  return { log, transport };
+}
+
+const nodes: NodeInfo[] = [
+  { id: "d1", isDir: true, name: "a", path: "a", ctime: 0 },
+  {
+    id: "f1",
+    isDir: false,
+    name: "b.json",
+    path: "a/b.json",
+    pId: "d1",
+    ctime: 0,
+  },
+  { id: "f2", isDir: false, name: "c.json", path: "c.json", ctime: 0 },
+];
+
+test("Update a file in a remote transaction.", async () => {
+  const { log, transport } = createTransport({ f1: { a: 1 } });
+  const client = new Client({ transport });
+  const updated = await client.update("f1", (data) => {
+    data.a = 2;
+  });
+  expect(updated).toEqual({ a: 2 });
+  expect(log).toEqual(["begin", "get in t1", "write in t1", "commit t1"]);
+});
+
+test("Roll back a remote transaction that throws.", async () => {
+  const { log, transport } = createTransport({});
+  const client = new Client({ transport });
+  let err: unknown;
+  await client.transaction((trx) => trx.remove("f1")).catch((ex) => (err = ex));
+  expect(err).toBeInstanceOf(RemoteError);
+  expect(log).toEqual(["begin", "remove in t1", "rollback t1"]);
+});
+
+test("Visit remote nodes in depth-first order.", async () => {
+  const { transport } = createTransport({});
+  const client = new Client({ transport });
+  const visited: string[] = [];
+  await client.eachNode(null, (node, { depth }) => {
+    visited.push(`${depth}:${node.path}`);
+  });
+  expect(visited).toEqual(["0:a", "1:a/b.json", "0:c.json"]);
+});
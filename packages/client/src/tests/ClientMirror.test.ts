@@ -0,0 +1,175 @@
+import type {
+  NodeInfo,
+  SyncChange,
+  SyncClientMessage,
+  SyncServerMessage,
+} from "jdex";
+import { expect, test } from "vitest";
+// Packages
+import {
+  ClientMirror,
+  type ClientMirrorOptions,
+  RemoteError,
+  WebSocketTransport,
+  type WebSocketLike,
+} from "@/index";
+
+const dir: NodeInfo = { id: "d1", isDir: true, name: "a", path: "a", ctime: 0 };
+const file: NodeInfo = {
+  id: "f1",
+  isDir: false,
+  name: "b.json",
+  path: "a/b.json",
+  pId: "d1",
+  ctime: 0,
+};
+
+/**
+ * A fake WebSocket connected to a fake server, which accepts mutations of
+ * `f1` and rejects all others.
+ */
+class FakeSocket implements WebSocketLike {
+  static current: FakeSocket;
+  readyState = 1;
+  /** Replies to mutations are held until released. */
+  held: Array<() => void> = [];
+  private _listeners = new Map<string, Array<(event?: any) => void>>();
+
+  constructor() {
+    FakeSocket.current = this;
+    setTimeout(() => this.emit("open"));
+  }
+
+  addEventListener(type: string, listener: (event?: any) => void) {
+    this._listeners.set(type, [...(this._listeners.get(type) ?? []), listener]);
+  }
+
+  close() {
+    this.emit("close");
+  }
+
+  emit(type: string, event?: unknown) {
+    for (const listener of this._listeners.get(type) ?? []) listener(event);
+  }
+
+  /** Sends a message from the fake server. */
+  reply(message: SyncServerMessage) {
+    this.emit("message", { data: JSON.stringify(message) });
+  }
+
+  send(data: string) {
+    const message: SyncClientMessage = JSON.parse(data);
+    const { id: re } = message;
+    if (message.type === "subscribe") {
+      // Only the file is within the directory.
+      const nodes = message.within ? [file] : [dir, file];
+      setTimeout(() => this.reply({ type: "snapshot", re, nodes }));
+    } else if (message.type === "get") {
+      setTimeout(() => this.reply({ type: "result", re, result: [{ a: 1 }] }));
+    } else if (message.type === "mutate") {
+      const [mutation] = message.mutations;
+      this.held.push(() => {
+        if (mutation?.op === "write" && mutation.id === "f1") {
+          const changes: SyncChange[] = [
+            {
+              type: "changed",
+              node: file,
+              external: false,
+              patch: [{ op: "replace", path: "", value: mutation.data }],
+              inverse: [],
+            },
+          ];
+          this.reply({ type: "changes", sub: 1, changes, re });
+          this.reply({ type: "result", re, result: [undefined] });
+        } else {
+          const error = { name: "Error", message: "Rejected" };
+          this.reply({ type: "error", re, error });
+        }
+      });
+    }
+  }
+
+  /** Releases the held mutation replies, once sent. */
+  async release() {
+    await new Promise((resolve) => setTimeout(resolve));
+    for (const reply of this.held.splice(0)) reply();
+  }
+}
+
+async function openMirror(options?: ClientMirrorOptions) {
+  const transport = new WebSocketTransport("ws://test", {
+    WebSocket: FakeSocket,
+  });
+  const mirror = new ClientMirror(transport, options);
+  await mirror.open();
+  return mirror;
+}
+
+test("Read the mirrored tree without calling the server.", async () => {
+  const mirror = await openMirror();
+  const paths: string[] = [];
+  mirror.eachNode(null, (node) => {
+    paths.push(node.path);
+  });
+  expect(paths).toEqual(["a", "a/b.json"]);
+  expect(mirror.id("a/b.json")).toBe("f1");
+  expect(await mirror.load("f1")).toEqual({ a: 1 });
+  expect(mirror.get("f1")).toEqual({ a: 1 });
+});
+
+test("Read the tree within the mirrored directory.", async () => {
+  const mirror = await openMirror({ within: "d1" });
+  const visited: Array<[string, number]> = [];
+  mirror.eachNode(null, (node, { depth }) => {
+    visited.push([node.path, depth]);
+  });
+  expect(visited).toEqual([["a/b.json", 0]]);
+});
+
+test("Apply mutations optimistically and undo rejected ones.", async () => {
+  const mirror = await openMirror();
+  await mirror.load("f1");
+  let notified = 0;
+  mirror.subscribe(() => (notified += 1));
+
+  const writing = mirror.write("f1", { a: 2 });
+  expect(mirror.get("f1")).toEqual({ a: 2 });
+  await FakeSocket.current.release();
+  await writing;
+  expect(mirror.get("f1")).toEqual({ a: 2 });
+
+  const renaming = mirror.rename("d1", "z");
+  expect(mirror.path("f1")).toBe("z/b.json");
+  await FakeSocket.current.release();
+  let err: unknown;
+  await renaming.catch((ex) => (err = ex));
+  expect(err).toBeInstanceOf(RemoteError);
+  expect(mirror.path("f1")).toBe("a/b.json");
+  expect(notified).toBe(4);
+});
+
+test("Apply changes made by others.", async () => {
+  const mirror = await openMirror();
+  await mirror.load("f1");
+  FakeSocket.current.reply({
+    type: "changes",
+    sub: 1,
+    changes: [
+      {
+        type: "changed",
+        node: file,
+        external: true,
+        patch: [{ op: "add", path: "/b", value: 2 }],
+        inverse: [{ op: "remove", path: "/b" }],
+      },
+      {
+        type: "moved",
+        node: { ...dir, path: "x/a" },
+        external: true,
+        from: "a",
+      },
+    ],
+  });
+  expect(mirror.get("f1")).toEqual({ a: 1, b: 2 });
+  expect(mirror.path("f1")).toBe("x/a/b.json");
+});
@@ -0,0 +1,70 @@
+import type { SyncMethod } from "jdex";
+// Local
+import { RemoteError } from "@/errors";
+import type { Transport } from "@/types";
+
+export interface HttpTransportOptions {
+  /** A `fetch` implementation. Defaults to the global `fetch`. */
+  fetch?: typeof fetch;
+  /** Headers to send with each request, e.g. `Authorization`. */
+  headers?: Record<string, string>;
+}
+
+/**
+ * Calls the JSON API of a server's request handler, e.g. at
+ * `"http://localhost:8080/api"`.
+ */
+export class HttpTransport implements Transport {
+  /** Object name for the default `toString` implementation. */
+  public readonly [Symbol.toStringTag]: string = "HttpTransport";
+  /** Base url of the server's routes. */
+  public readonly url: string;
+
+  private _options: HttpTransportOptions;
+
+  constructor(url: string, options: HttpTransportOptions = {}) {
+    this.url = url.replace(/\/+$/, "");
+    this._options = options;
+  }
+
+  async begin(): Promise<string> {
+    const { trx } = await this.post("/transactions");
+    return trx;
+  }
+
+  async call(method: SyncMethod, args: unknown[], trx?: string) {
+    const { result } = await this.post("/call", { method, args, trx });
+    return result;
+  }
+
+  close() {
+    // Nothing to close, each request has it's own connection.
+  }
+
+  async commit(trx: string) {
+    await this.post(`/transactions/${encodeURIComponent(trx)}/commit`);
+  }
+
+  async rollback(trx: string) {
+    await this.post(`/transactions/${encodeURIComponent(trx)}/rollback`);
+  }
+
+  /** Posts JSON to the route path and returns the JSON response, if any. */
+  private async post(path: string, body?: unknown): Promise<any> {
+    const { fetch: fetchFn = fetch, headers } = this._options;
+    const res = await fetchFn(this.url + path, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...headers },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    const text = await res.text();
+    const json = text ? JSON.parse(text) : undefined;
+    if (!res.ok) {
+      throw new RemoteError(
+        json?.error ?? { name: "Error", message: res.statusText },
+        res.status,
+      );
+    }
+    return json;
+  }
+}
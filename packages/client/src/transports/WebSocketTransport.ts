@@ -0,0 +1,208 @@
+import type {
+  NodeInfo,
+  SyncChange,
+  SyncClientMessage,
+  SyncMethod,
+  SyncServerMessage,
+} from "jdex";
+// Local
+import { RemoteError } from "@/errors";
+import type { Transport } from "@/types";
+
+/** The parts of the standard `WebSocket` used by the transport. */
+export interface WebSocketLike {
+  readonly readyState: number;
+  addEventListener(
+    type: "close" | "error" | "open",
+    listener: () => void,
+  ): void;
+  addEventListener(
+    type: "message",
+    listener: (event: { data: unknown }) => void,
+  ): void;
+  close(code?: number): void;
+  send(data: string): void;
+}
+
+export interface WebSocketTransportOptions {
+  /**
+   * A `WebSocket` constructor, e.g. from the `ws` package in Node.js versions
+   * without a global `WebSocket`. Defaults to the global `WebSocket`.
+   */
+  WebSocket?: new (url: string) => WebSocketLike;
+}
+
+/** A client message without the `id`, which is set when sending it. */
+export type SyncRequest = SyncClientMessage extends infer M
+  ? M extends SyncClientMessage
+    ? Omit<M, "id">
+    : never
+  : never;
+
+/**
+ * A function called with the changes of a subscription, and the id of the
+ * `mutate` message which made them if sent by this transport.
+ */
+export type SyncChangesListener = (changes: SyncChange[], re?: number) => void;
+
+/** A reply awaited from the server. */
+interface Pending {
+  resolve: (value: any) => void;
+  reject: (reason: unknown) => void;
+}
+
+/**
+ * Calls a server's sync server over a WebSocket, e.g. at
+ * `"ws://localhost:8080/api/sync"`. Connects on the first request and again
+ * after the connection is closed.
+ */
+export class WebSocketTransport implements Transport {
+  /** Object name for the default `toString` implementation. */
+  public readonly [Symbol.toStringTag]: string = "WebSocketTransport";
+  /** The sync server url. */
+  public readonly url: string;
+
+  private _connecting: Promise<WebSocketLike> | undefined;
+  /** Change listeners by the message id of their subscription. */
+  private _listeners = new Map<number, SyncChangesListener>();
+  private _nextId = 1;
+  private _options: WebSocketTransportOptions;
+  /** Replies awaited from the server by message id. */
+  private _pending = new Map<number, Pending>();
+
+  constructor(url: string, options: WebSocketTransportOptions = {}) {
+    this.url = url;
+    this._options = options;
+  }
+
+  async begin(): Promise<string> {
+    return this.request({ type: "begin" });
+  }
+
+  async call(method: SyncMethod, args: unknown[], trx?: string) {
+    return this.request({ type: "call", method, args, trx });
+  }
+
+  close() {
+    const connecting = this._connecting;
+    this._connecting = undefined;
+    connecting?.then((ws) => ws.close()).catch(() => undefined);
+  }
+
+  async commit(trx: string) {
+    await this.request({ type: "commit", trx });
+  }
+
+  /**
+   * Sends a message to the server and returns the `result` or `snapshot`
+   * nodes of the reply. Throws a {@link RemoteError} if the reply is an error.
+   */
+  async request(message: SyncRequest): Promise<any> {
+    return this.send(message).reply;
+  }
+
+  async rollback(trx: string) {
+    await this.request({ type: "rollback", trx });
+  }
+
+  /**
+   * Sends a message to the server and returns it's id along with the reply,
+   * see {@link request}.
+   */
+  send(message: SyncRequest) {
+    const id = this._nextId++;
+    const reply = this.connect().then(
+      (ws) =>
+        new Promise<any>((resolve, reject) => {
+          this._pending.set(id, { resolve, reject });
+          ws.send(JSON.stringify({ ...message, id }));
+        }),
+    );
+    return { id, reply };
+  }
+
+  /**
+   * Subscribes to the nodes within a directory id, or all nodes when `null`.
+   * Returns the subscription id and a snapshot of the nodes, after which the
+   * listener is called with each change. The subscription ends when the
+   * connection closes.
+   */
+  async subscribe(within: string | null, listener: SyncChangesListener) {
+    const { id, reply } = this.send({ type: "subscribe", within });
+    this._listeners.set(id, listener);
+    try {
+      const nodes: NodeInfo[] = await reply;
+      return { nodes, sub: id };
+    } catch (ex) {
+      this._listeners.delete(id);
+      throw ex;
+    }
+  }
+
+  /** Ends a subscription by id. */
+  async unsubscribe(sub: number) {
+    this._listeners.delete(sub);
+    await this.request({ type: "unsubscribe", sub });
+  }
+
+  private connect() {
+    if (!this._connecting) {
+      this._connecting = new Promise<WebSocketLike>((resolve, reject) => {
+        const WebSocketClass =
+          this._options.WebSocket ??
+          (globalThis as { WebSocket?: WebSocketTransportOptions["WebSocket"] })
+            .WebSocket;
+        if (!WebSocketClass) {
+          throw new Error("Expected a WebSocket option in this environment.");
+        }
+        const ws = new WebSocketClass(this.url);
+        ws.addEventListener("open", () => resolve(ws));
+        ws.addEventListener("error", () =>
+          reject(new Error(`Connection failed - "${this.url}"`)),
+        );
+        ws.addEventListener("close", () => this.disconnected(ws));
+        ws.addEventListener("message", ({ data }) =>
+          this.receive(JSON.parse(String(data))),
+        );
+      });
+      // Connect again on the next request if this attempt fails.
+      this._connecting.catch(() => (this._connecting = undefined));
+    }
+    return this._connecting;
+  }
+
+  private disconnected(ws: WebSocketLike) {
+    this._connecting
+      ?.then((current) => {
+        if (current === ws) this._connecting = undefined;
+      })
+      .catch(() => undefined);
+    const pending = [...this._pending.values()];
+    this._pending.clear();
+    this._listeners.clear();
+    for (const { reject } of pending) {
+      reject(new Error("Connection closed."));
+    }
+  }
+
+  private receive(message: SyncServerMessage) {
+    if (message.type === "changes") {
+      this._listeners.get(message.sub)?.(message.changes, message.re);
+      return;
+    } else if (message.re === undefined) {
+      return;
+    }
+    const pending = this._pending.get(message.re);
+    if (!pending) {
+      return;
+    }
+    this._pending.delete(message.re);
+    if (message.type === "error") {
+      pending.reject(new RemoteError(message.error));
+    } else if (message.type === "snapshot") {
+      pending.resolve(message.nodes);
+    } else {
+      pending.resolve(message.result);
+    }
+  }
+}
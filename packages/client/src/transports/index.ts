@@ -0,0 +1,2 @@
+export * from "./HttpTransport";
+export * from "./WebSocketTransport";
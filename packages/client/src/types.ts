@@ -0,0 +1,135 @@
+import type { NodeInfo, PatchOperation, SyncMethod } from "jdex";
+
+export type { NodeInfo, PatchOperation };
+
+/** The transport used by a {@link Client} to call a jdex server. */
+export interface Transport {
+  /** Begins a remote transaction and returns it's id once it's running. */
+  begin(): Promise<string>;
+  /**
+   * Calls a query method in the given remote transaction id or, when no id is
+   * given, in a transaction of it's own.
+   */
+  call(method: SyncMethod, args: unknown[], trx?: string): Promise<unknown>;
+  /** Closes any connection to the server. */
+  close(): void;
+  /** Commits the given remote transaction id. */
+  commit(trx: string): Promise<void>;
+  /** Rolls back the given remote transaction id. */
+  rollback(trx: string): Promise<void>;
+}
+
+export type MapNodeInfoFn<T = NodeInfo> = (node: NodeInfo) => T;
+
+export type NodeVisitorFn<T = NodeInfo> = (
+  node: T,
+  index: NodeVisitorIndex,
+  siblings: T[],
+  children: T[],
+) => boolean | undefined | void;
+
+export interface NodeVisitorIndex {
+  /** Depth within the Database source directory. `0` is a root node.  */
+  depth: number;
+  /** Order within the parent node. */
+  order: number;
+}
+
+/** The result of applying a JSON Patch to file content. */
+export interface PatchResult {
+  /** The operations that were applied. */
+  patch: PatchOperation[];
+  /** The operations which revert the applied {@link patch}. */
+  inverse: PatchOperation[];
+}
+
+/** A file matched by a query and the result of it's query expression. */
+export interface QueryResult<T = unknown> {
+  /** The matching file. */
+  node: NodeInfo;
+  /** The result of the query expression for the file content. */
+  result: T;
+}
+
+/**
+ * The server's `QueryInterface` called remotely, so every method returns a
+ * `Promise`.
+ */
+export interface RemoteQueryInterface {
+  /** Adds a directory to the given parent node id and returns a new node id. */
+  addDirectory(name: string, pId?: string | null): Promise<string>;
+  /** Adds a file to the given parent node id and returns a new node id. */
+  addFile(
+    name: string,
+    info: { data: unknown; pId?: string | null },
+  ): Promise<string>;
+  /**
+   * Traverses the tree in depth-first order calling the given callback for
+   * each node. The nodes are fetched before the first callback.
+   */
+  eachNode<T = NodeInfo>(
+    withinId: string | null,
+    visitor: NodeVisitorFn<T>,
+    mapNodeAs?: MapNodeInfoFn<T>,
+  ): Promise<void>;
+  /** Returns the content of the given file id or `undefined` if not found. */
+  get<T = any>(id: string): Promise<T | undefined>;
+  /**
+   * Returns the id used to refer to the given path, relative to the database
+   * root, or `undefined` if path not found.
+   */
+  id(path: string): Promise<string | undefined>;
+  /** Returns the ids of the files indexed with the given value. */
+  lookup(index: string, value: string | number | boolean): Promise<string[]>;
+  /**
+   * Moves a directory or file id into a new parent directory (or root, when
+   * `toId` is `null`) and returns the new path.
+   */
+  move(id: string, toId: string | null): Promise<string>;
+  /**
+   * Applies RFC 6902 JSON Patch operations to the content of the given file
+   * id and returns the applied and inverse operations.
+   */
+  patch(id: string, operations: PatchOperation[]): Promise<PatchResult>;
+  /**
+   * Returns the path for the given node id, the root path if id is `null`.
+   * and `undefined` if id not found.
+   */
+  path(id: string | null): Promise<string | undefined>;
+  /**
+   * Runs a JMESPath expression against the content of each file matching the
+   * given path glob pattern(s). See https://jmespath.org/specification.html
+   */
+  query<T = unknown>(
+    files: string | string[],
+    expression: string,
+  ): Promise<QueryResult<T>[]>;
+  /** Returns the content of the file at the given path or `undefined`. */
+  read<T = any>(path: string): Promise<T | undefined>;
+  /** Removes a directory or file by id returning `true` if successful. */
+  remove(id: string): Promise<boolean>;
+  /** Renames a directory or file by id and returns the new path. */
+  rename(id: string, name: string): Promise<string>;
+  /**
+   * Updates the content of the given file id with the value returned from
+   * `fn` and returns the new content. The content is read and written in the
+   * same remote transaction.
+   */
+  update<T = any>(id: string, fn: (data: T) => T | void): Promise<T>;
+  /** Writes the content of the given file id. */
+  write(id: string, data: unknown): Promise<void>;
+}
+
+/** A transaction running on the server, controlled by the client. */
+export interface RemoteTransaction extends RemoteQueryInterface {
+  /** `true` once committed or rolled back. */
+  readonly completed: boolean;
+  /** The remote transaction id. */
+  readonly trxId: string;
+  commit(): Promise<void>;
+  rollback(): Promise<void>;
+}
+
+export type RemoteTransactionCallback<T> = (
+  trx: RemoteTransaction,
+) => Promise<T> | T;
@@ -13,4 +13,132 @@ export interface NodeInfo {
   readonly ctime: number;
 }
 
+/** A JSON Patch operation, see https://jsonpatch.com. */
+export interface PatchOperation {
+  op: "add" | "copy" | "move" | "remove" | "replace" | "test";
+  /** JSON Pointer to the target location, e.g. `"/items/0"`. */
+  path: string;
+  /** JSON Pointer to the source location of a `copy` or `move`. */
+  from?: string;
+  value?: unknown;
+}
+
+/** A change made to a directory or file, as sent to sync clients. */
+export type SyncChange = {
+  /** The directory or file info after the change, or before if removed. */
+  node: NodeInfo;
+  /** `true` if the change was made by another program. */
+  external: boolean;
+} & (
+  | { type: "added" }
+  | {
+      type: "changed";
+      /** Operations that apply the content change. */
+      patch: PatchOperation[];
+      /** Operations that revert the content change. */
+      inverse: PatchOperation[];
+    }
+  | {
+      type: "moved" | "renamed";
+      /** Path before the change. */
+      from: string;
+    }
+  | { type: "removed" }
+);
+
+/**
+ * A mutation sent by a sync client. All mutations of a `mutate` message run
+ * in a single transaction.
+ */
+export type SyncMutation =
+  | { op: "addDirectory"; name: string; pId?: string | null }
+  | { op: "addFile"; name: string; data?: unknown; pId?: string | null }
+  | { op: "move"; id: string; toId: string | null }
+  | { op: "patch"; id: string; patch: PatchOperation[] }
+  | { op: "remove"; id: string }
+  | { op: "rename"; id: string; name: string }
+  | { op: "write"; id: string; data: unknown };
+
+/**
+ * Names of the query methods a client can call remotely, with the same
+ * arguments and results as the server's `QueryInterface`. The `nodes` method
+ * returns the {@link NodeInfo} listing within a directory id, or all nodes.
+ */
+export type SyncMethod =
+  | "addDirectory"
+  | "addFile"
+  | "get"
+  | "id"
+  | "lookup"
+  | "move"
+  | "nodes"
+  | "patch"
+  | "path"
+  | "query"
+  | "read"
+  | "remove"
+  | "rename"
+  | "write";
+
+/**
+ * Messages sent from a sync client to the server. Each has an `id` chosen by
+ * the client which is returned as `re` in the server's reply.
+ *
+ * - `subscribe` - Subscribe to the nodes `within` a directory, or all nodes.
+ *   Replied to with a `snapshot`, followed by `changes` messages.
+ * - `unsubscribe` - Stop a subscription by the `id` of it's `subscribe`.
+ * - `get` - Get the content of files. Replied to with a `result` of contents
+ *   in the same order as `ids`.
+ * - `mutate` - Run mutations in a transaction. Replied to with a `result` of
+ *   the return value of each mutation, e.g. the id of an added file.
+ * - `call` - Call a query method in the remote transaction `trx`, or in a
+ *   transaction of it's own. Replied to with a `result` of it's return value.
+ * - `begin` - Begin a remote transaction, replied to with a `result` of the
+ *   transaction id once it's running. Other transactions wait until it's
+ *   committed, rolled back or times out.
+ * - `commit` / `rollback` - End the remote transaction `trx`.
+ */
+export type SyncClientMessage =
+  | { type: "subscribe"; id: number; within?: string | null }
+  | { type: "unsubscribe"; id: number; sub: number }
+  | { type: "get"; id: number; ids: string[] }
+  | { type: "mutate"; id: number; mutations: SyncMutation[] }
+  | {
+      type: "call";
+      id: number;
+      method: SyncMethod;
+      args: unknown[];
+      trx?: string;
+    }
+  | { type: "begin"; id: number }
+  | { type: "commit"; id: number; trx: string }
+  | { type: "rollback"; id: number; trx: string };
+
+/**
+ * Messages sent from the server to a sync client.
+ *
+ * - `snapshot` - The {@link NodeInfo} listing of a new subscription in
+ *   depth-first order, where `re` is the `subscribe` message id.
+ * - `changes` - Changes of a committed transaction for the subscription `sub`.
+ *   When made by a `mutate` message of the same client, `re` is it's id.
+ * - `result` - The result of a `get`, `mutate`, `call`, `begin`, `commit`,
+ *   `rollback` or `unsubscribe` message.
+ * - `error` - The error of any client message, or of an unreadable message
+ *   when `re` is not set.
+ */
+export type SyncServerMessage =
+  | { type: "snapshot"; re: number; nodes: NodeInfo[] }
+  | { type: "changes"; sub: number; changes: SyncChange[]; re?: number }
+  | { type: "result"; re: number; result: unknown }
+  | { type: "error"; re?: number; error: SyncError };
+
+/** An error sent to a sync client. */
+export interface SyncError {
+  /** Error class name, e.g. `"ValidationError"`. */
+  name: string;
+  message: string;
+  /** Extra error details, e.g. the `issues` of a validation error. */
+  [detail: string]: unknown;
+}
+
 export default {};
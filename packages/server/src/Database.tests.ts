@@ -1,12 +1,30 @@
-// import Path from "node:path";
+import Path from "node:path";
+import FS from "node:fs";
 // import * as FSP from "node:fs/promises";
-import { expect, test } from "vitest";
+import { Type } from "@sinclair/typebox";
+import { expect, expectTypeOf, test } from "vitest";
 // Packages
-import type { Database } from "@/index";
+import {
+  UniqueIndexError,
+  type ChangeEvent,
+  ValidationError,
+  type Database,
+  type Model,
+} from "@/index";
 // Local
 import { openDb } from "@/tests/common/projects";
 
-export function DatabaseUnitTests<DB = any>(dbOrPath: string | Database<DB>) {
+/** Returns `true` if the database files are written to the root directory. */
+function onDisk(db: Database<any>) {
+  return (db.config.type ?? "fs") === "fs";
+}
+
+/** The file types of the schemas registered by the tests. */
+export interface TestDB {
+  yada: { yada: number };
+}
+
+export function DatabaseUnitTests(dbOrPath: string | Database<TestDB>) {
   test("Open database, print directory, close database.", async () => {
     let err: any = undefined;
     await openDb(dbOrPath, async (db) => {
@@ -35,6 +53,282 @@ export function DatabaseUnitTests<DB = any>(dbOrPath: string | Database<DB>) {
     });
     expect(err).toBeUndefined();
   });
+  test("Rollback all changes when a transaction throws.", async () => {
+    let err: any = undefined;
+    await openDb(dbOrPath, async (db) => {
+      await db
+        .transaction(async (trx) => {
+          const dirId = await trx.addDirectory("yada");
+          await trx.addFile("yada.json", { data: { yada: 1 }, pId: dirId });
+          throw new Error("Testing rollback");
+        })
+        .catch((ex) => {
+          expect(ex.message).toBe("Testing rollback");
+        });
+      await db.transaction((trx) => {
+        expect(trx.id("yada")).toBeUndefined();
+        expect(trx.id("yada/yada.json")).toBeUndefined();
+      });
+      expect(FS.existsSync(Path.join(db.path, "yada"))).toBe(false);
+    }).catch((ex) => {
+      err = ex;
+    });
+    expect(err).toBeUndefined();
+  });
+  test("Commit multiple changes in one transaction.", async () => {
+    let err: any = undefined;
+    await openDb(dbOrPath, async (db) => {
+      const dirId = await db.transaction(async (trx) => {
+        const dirId = await trx.addDirectory("yada");
+        const fileId = await trx.addFile("yada.json", {
+          data: { yada: 1 },
+          pId: dirId,
+        });
+        await trx.rename(dirId, "yada2");
+        await trx.move(fileId, null);
+        await trx.move(fileId, dirId);
+        return dirId;
+      });
+      if (onDisk(db)) {
+        expect(FS.existsSync(Path.join(db.path, "yada2", "yada.json"))).toBe(
+          true,
+        );
+      }
+      await db.transaction((trx) => trx.remove(dirId));
+      expect(FS.existsSync(Path.join(db.path, "yada2"))).toBe(false);
+    }).catch((ex) => {
+      err = ex;
+    });
+    expect(err).toBeUndefined();
+  });
+  test("Read, write and update file content.", async () => {
+    let err: any = undefined;
+    await openDb(dbOrPath, async (db) => {
+      const fileId = await db.transaction((trx) =>
+        trx.addFile("yada.json", { data: { yada: 1 } }),
+      );
+      await db.transaction(async (trx) => {
+        expect(await trx.read("yada.json")).toEqual({ yada: 1 });
+        await trx.write(fileId, { yada: 2 });
+        const updated = await trx.update(fileId, (data) => {
+          data.yada += 1;
+        });
+        expect(updated).toEqual({ yada: 3 });
+        expect(await trx.get(fileId)).toEqual({ yada: 3 });
+      });
+      if (onDisk(db)) {
+        const json = FS.readFileSync(Path.join(db.path, "yada.json"), "utf-8");
+        expect(JSON.parse(json)).toEqual({ yada: 3 });
+      }
+      await db.transaction((trx) => trx.remove(fileId));
+    }).catch((ex) => {
+      err = ex;
+    });
+    expect(err).toBeUndefined();
+  });
+  test("Patch file content and revert with the inverse patch.", async () => {
+    let err: any = undefined;
+    await openDb(dbOrPath, async (db) => {
+      const fileId = await db.transaction((trx) =>
+        trx.addFile("yada.json", { data: { yada: { items: [1] } } }),
+      );
+      await db.transaction(async (trx) => {
+        const { inverse } = await trx.patch(fileId, [
+          { op: "add", path: "/yada/items/-", value: 2 },
+          { op: "add", path: "/yada/name", value: "yada" },
+        ]);
+        expect(await trx.get(fileId)).toEqual({
+          yada: { items: [1, 2], name: "yada" },
+        });
+        await trx.patch(fileId, inverse);
+        expect(await trx.get(fileId)).toEqual({ yada: { items: [1] } });
+        await trx.remove(fileId);
+      });
+    }).catch((ex) => {
+      err = ex;
+    });
+    expect(err).toBeUndefined();
+  });
+  test("Undo and redo changes.", async () => {
+    let err: any = undefined;
+    await openDb(dbOrPath, async (db) => {
+      const fileId = await db.transaction(async (trx) => {
+        const fileId = await trx.addFile("yada.json", { data: { yada: 1 } });
+        await trx.write(fileId, { yada: 2 });
+        await trx.rename(fileId, "yada2.json");
+        return fileId;
+      });
+      expect(await db.undo()).toBe(true);
+      await db.transaction(async (trx) => {
+        expect(trx.path(fileId)).toBe("yada.json");
+        expect(await trx.undo(fileId)).toBe(true);
+        expect(await trx.get(fileId)).toEqual({ yada: 1 });
+        expect(await trx.undo(fileId)).toBe(false);
+      });
+      expect(await db.redo(fileId)).toBe(true);
+      expect(await db.redo()).toBe(true);
+      await db.transaction(async (trx) => {
+        expect(trx.path(fileId)).toBe("yada2.json");
+        expect(await trx.get(fileId)).toEqual({ yada: 2 });
+        await trx.remove(fileId);
+      });
+    }).catch((ex) => {
+      err = ex;
+    });
+    expect(err).toBeUndefined();
+  });
+  test("Validate file content with matching schemas.", async () => {
+    let err: any = undefined;
+    await openDb(dbOrPath, async (db) => {
+      db.schemas.set("yada", {
+        files: ["**/*.yada.json"],
+        schema: Type.Object({ yada: Type.Number() }),
+      });
+      const fileId = await db.transaction((trx) =>
+        trx.addFile("valid.yada.json", { data: { yada: 1 } }),
+      );
+      const invalid = await db
+        .transaction(async (trx) => {
+          await trx.write(fileId, { yada: "1" });
+        })
+        .catch((ex) => ex);
+      expect(invalid).toBeInstanceOf(ValidationError);
+      expect(invalid.issues[0]).toMatchObject({
+        file: "valid.yada.json",
+        path: "/yada",
+        schema: "yada",
+      });
+      await db.transaction((trx) => trx.remove(fileId));
+    }).catch((ex) => {
+      err = ex;
+    });
+    expect(err).toBeUndefined();
+  });
+  test("Typed model access.", async () => {
+    let err: any = undefined;
+    await openDb(dbOrPath, async (db) => {
+      db.schemas.set("yada", {
+        files: ["**/*.yada.json"],
+        schema: Type.Object({ yada: Type.Number() }),
+      });
+      await db.transaction(async (trx) => {
+        const yada = trx.model("yada");
+        expectTypeOf(yada).toEqualTypeOf<Model<{ yada: number }>>();
+        const fileId = await yada.addFile("model.yada.json", {
+          data: { yada: 1 },
+        });
+        const updated = await yada.update(fileId, (data) => {
+          data.yada += 1;
+        });
+        expect(updated.yada).toBe(2);
+        await expect(
+          yada.addFile("model.json", { data: { yada: 1 } }),
+        ).rejects.toThrow(/does not match schema/);
+        await trx.remove(fileId);
+      });
+    }).catch((ex) => {
+      err = ex;
+    });
+    expect(err).toBeUndefined();
+  });
+  test("Query file content with JMESPath.", async () => {
+    let err: any = undefined;
+    await openDb(dbOrPath, async (db) => {
+      await db.transaction(async (trx) => {
+        const dirId = await trx.addDirectory("yada");
+        for (const [name, type] of [
+          ["a.json", "currency"],
+          ["b.json", "string"],
+        ]) {
+          await trx.addFile(name!, {
+            data: { columns: [{ name: "price", type }] },
+            pId: dirId,
+          });
+        }
+        const results = await trx.query(
+          "yada/*.json",
+          "columns[?type == 'currency'].name",
+        );
+        expect(results).toHaveLength(1);
+        expect(results[0]!.node.path).toBe("yada/a.json");
+        expect(results[0]!.result).toEqual(["price"]);
+        await trx.rollback();
+      });
+    }).catch((ex) => {
+      err = ex;
+    });
+    expect(err).toBeUndefined();
+  });
+  test("Lookup files with a unique index.", async () => {
+    let err: any = undefined;
+    await openDb(dbOrPath, async (db) => {
+      db.indexes.set("yadaName", {
+        files: "yada/*.json",
+        field: "yada.name",
+        unique: true,
+      });
+      await db.close();
+      await db.open();
+      await db.transaction(async (trx) => {
+        const dirId = await trx.addDirectory("yada");
+        const fileId = await trx.addFile("a.json", {
+          data: { yada: { name: "a" } },
+          pId: dirId,
+        });
+        expect(trx.lookup("yadaName", "a")).toEqual([fileId]);
+        await expect(
+          trx.addFile("b.json", { data: { yada: { name: "a" } }, pId: dirId }),
+        ).rejects.toBeInstanceOf(UniqueIndexError);
+        await trx.write(fileId, { yada: { name: "b" } });
+        expect(trx.lookup("yadaName", "a")).toEqual([]);
+        expect(trx.lookup("yadaName", "b")).toEqual([fileId]);
+        await trx.move(fileId, null);
+        expect(trx.lookup("yadaName", "b")).toEqual([]);
+        await trx.rollback();
+      });
+      db.indexes.delete("yadaName");
+    }).catch((ex) => {
+      err = ex;
+    });
+    expect(err).toBeUndefined();
+  });
+  test("Notify subscribers of committed changes.", async () => {
+    let err: any = undefined;
+    await openDb(dbOrPath, async (db) => {
+      const changes: ChangeEvent[] = [];
+      const unsubscribe = db.subscribe("yada/**", (events) => {
+        changes.push(...events);
+      });
+      await db
+        .transaction(async (trx) => {
+          await trx.addDirectory("yada");
+          throw new Error("Testing rollback");
+        })
+        .catch(() => {});
+      expect(changes).toHaveLength(0);
+      const dirId = await db.transaction(async (trx) => {
+        const dirId = await trx.addDirectory("yada");
+        const fileId = await trx.addFile("a.json", { data: {}, pId: dirId });
+        await trx.patch(fileId, [{ op: "add", path: "/a", value: 1 }]);
+        await trx.rename(fileId, "b.json");
+        await trx.addFile("c.json", { data: {} });
+        return dirId;
+      });
+      await db.transaction((trx) => trx.remove(dirId));
+      unsubscribe();
+      expect(changes.map((it) => `${it.type} ${it.node.path}`)).toEqual([
+        "added yada",
+        "added yada/a.json",
+        "changed yada/a.json",
+        "renamed yada/b.json",
+        "removed yada",
+      ]);
+      await db.transaction((trx) => trx.remove(trx.id("c.json")!));
+    }).catch((ex) => {
+      err = ex;
+    });
+    expect(err).toBeUndefined();
+  });
   test("Find databases.", async () => {
     let err: any = undefined;
     await openDb(dbOrPath, async (db) => {
@@ -1,19 +1,34 @@
 import Path from "node:path";
 import FS from "node:fs";
+import { minimatch } from "minimatch";
 // Local
 import {
+  ChangeEvent,
+  ChangeListener,
   Config,
   Driver,
   ILogger,
+  IndexDefinition,
+  LogLevel,
+  OpenOptions,
   SchemaProvider,
+  Transaction,
   TransactionCallback,
 } from "@/types";
+import { DatabaseClosedError, JdexError, NodeNotFoundError } from "@/errors";
+import { GitHistory } from "@/GitHistory";
+import { LevelLogger } from "@/LevelLogger";
 import { FsDriver } from "@/drivers/fs";
+import { MemoryDriver } from "@/drivers/memory";
 import { TypeboxSchemaProvider } from "@/providers/typebox";
 
 export interface DatabaseOptions extends Partial<Config> {
   /** Path to the config file. */
   config?: string;
+  /** The logger to log entries with. Defaults to `console`. */
+  logger?: ILogger;
+  /** Minimum level of logged entries. Defaults to `"info"`. */
+  logLevel?: LogLevel;
 }
 
 /**
@@ -31,17 +46,32 @@ export class Database<DB> {
   public readonly config: Readonly<Config>;
   /** The database configuration file path. */
   public readonly configFile?: string;
-  /** The common driver interface of the configured implementation. */
-  public readonly driver: Driver;
-  /** The common logger interface of the configured implementation. */
+  /**
+   * Secondary index definitions by name. Set before calling {@link open}.
+   * Use {@link Transaction.lookup} to find file ids by indexed value.
+   */
+  public readonly indexes = new Map<string, IndexDefinition>();
+  /**
+   * The logger given in {@link DatabaseOptions.logger}, logging entries at or
+   * above the {@link DatabaseOptions.logLevel}.
+   */
   public readonly logger: ILogger;
   /** Access to schemas. */
   public readonly schemas: SchemaProvider<DB>;
 
+  /** The driver of the configured type. See {@link driver}. */
+  private _driver: Driver<DB> | undefined;
+  /** The git history of the root, when configured. See {@link Config.git}. */
+  private _git: GitHistory | undefined;
   /** `true` if {@link Database.open}, `false` if {@link Database.close}d */
   private _opened = false;
+  private _subscriptions = new Set<{
+    files?: string[];
+    listener: ChangeListener;
+  }>();
   private _transactionQueue: Array<TransactionRunner> = [];
-  private _transactionsRunning = false;
+  /** Processing of the transaction queue, while transactions are queued. */
+  private _transactionsRunning: Promise<void> | undefined;
 
   /**
    * Creates a new JSON file system database engine.
@@ -53,7 +83,12 @@ export class Database<DB> {
       typeof configPathOrOptions === "string"
         ? { config: configPathOrOptions }
         : configPathOrOptions;
-    const { config: configPath, ...configDefaults } = options;
+    const {
+      config: configPath,
+      logger = console,
+      logLevel,
+      ...configDefaults
+    } = options;
     // Resolve paths.
     const configFile = configPath ? Path.resolve(configPath) : undefined;
     const configDir = configFile ? Path.dirname(configFile) : undefined;
@@ -70,11 +105,16 @@ export class Database<DB> {
         config = JSON.parse(configJson) as Config;
       }
     }
-    // Get the main data path, ensure it exists.
+    // Get the main data path, ensure it exists. The memory driver never
+    // writes and the sqlite driver's path is a file.
     const path = Path.resolve(
       configDir ? Path.join(configDir, config.root) : config.root,
     );
-    FS.mkdirSync(path, { recursive: true });
+    if (config.type === "sqlite") {
+      FS.mkdirSync(Path.dirname(path), { recursive: true });
+    } else if (config.type !== "memory") {
+      FS.mkdirSync(path, { recursive: true });
+    }
 
     Object.freeze(config);
 
@@ -82,36 +122,89 @@ export class Database<DB> {
     this.config = config;
     this.configFile = configFile;
     this.path = path;
-    this.logger = console;
+    this.logger = new LevelLogger(logger, logLevel);
     this.schemas = new TypeboxSchemaProvider<DB>();
-    this.driver = new FsDriver({
+    if (config.git) {
+      if (config.type && config.type !== "fs") {
+        this.logger.warn(`Git is not supported by the ${config.type} driver.`);
+      } else {
+        this._git = new GitHistory(path, config.git, this.logger);
+      }
+    }
+    switch (config.type) {
+      case "memory":
+        this._driver = new MemoryDriver(this.driverOptions());
+        break;
+      case "sqlite":
+        // Created when opened, see loadDriver.
+        break;
+      default:
+        this._driver = new FsDriver(this.driverOptions());
+        break;
+    }
+  }
+  /**
+   * The common driver interface of the configured implementation. The sqlite
+   * driver is available once the database is opened.
+   */
+  get driver(): Driver<DB> {
+    const { _driver } = this;
+    if (!_driver) {
+      throw new DatabaseClosedError(this.path);
+    }
+    return _driver;
+  }
+  /** Options to create the driver with, to be notified of it's changes. */
+  private driverOptions() {
+    return {
       db: this,
-    });
+      onChange: (changes: ChangeEvent[]) => this.notify(changes),
+    };
+  }
+  /**
+   * Creates the sqlite driver, if it's the configured type. It's imported only
+   * when used, since it loads the native `better-sqlite3` module, which is an
+   * optional dependency that isn't available on every platform.
+   */
+  private async loadDriver() {
+    if (!this._driver) {
+      const { SqliteDriver } = await import("./drivers/sqlite/SqliteDriver.js");
+      this._driver = new SqliteDriver<DB>(this.driverOptions());
+    }
+    return this._driver;
   }
   // #region Lifecycle
-  /** Closes the database if opened. */
+  /**
+   * Closes the database if opened, after the running transaction. Queued
+   * transactions are rejected with a {@link DatabaseClosedError}.
+   */
   async close() {
     const { _opened } = this;
     if (!_opened) {
       return;
     }
     this._opened = false;
+    await this._transactionsRunning;
     await this.driver.close();
+    await this._git?.flush();
   }
   /**
-   * Loads all directories and files within the database path.
+   * Loads all directories and files within the database path. Returns the
+   * files which couldn't be read, e.g. partially written by a crash.
    */
-  async open() {
+  async open(options?: OpenOptions) {
     const { _opened } = this;
     if (_opened) {
       throw new Error(`${this} is already opened.`);
     }
-    await this.driver.open();
+    const driver = await this.loadDriver();
+    const result = await driver.open(options);
     this._opened = true;
+    return result;
   }
   // #endregion
 
-  /** Prints the directory and file nodes with `console.log`. */
+  /** Prints the directory and file nodes with the {@link logger}. */
   async printDirectory() {
     const { logger } = this;
     return this.transaction((trx) => {
@@ -121,7 +214,7 @@ export class Database<DB> {
       logger.log(
         "\n" + `[${new Date().toISOString()}] Nodes in ${this}` + "\n",
       );
-      console.time("Time to print directory");
+      const start = performance.now();
       trx.eachNode(null, (node, { depth, order }, siblings, children) => {
         count += 1;
         maxDepth = Math.max(maxDepth, depth);
@@ -137,50 +230,182 @@ export class Database<DB> {
       logger.log("            Total nodes:", count);
       logger.log("              Max depth:", maxDepth);
       logger.log("Max nodes single parent:", maxItemsOneParent);
-      console.timeEnd("Time to print directory");
+      logger.log(
+        "Time to print directory:",
+        `${(performance.now() - start).toFixed(3)}ms`,
+      );
       logger.log("");
     });
   }
 
-  // #region Transactions
+  // #region Changes
+  /**
+   * Subscribes to changes made by committed transactions and, when watching
+   * the file system, by other programs. Returns a function to unsubscribe.
+   * @param files Optional glob pattern(s) of paths, relative to the database
+   * root, to limit the changes to. A move or rename matches by new or old path
+   * and a directory matches if the patterns could match within it.
+   * @example
+   * const unsubscribe = db.subscribe("db/**", (changes) => {
+   *   for (const { type, node } of changes) console.log(type, node.path);
+   * });
+   */
+  subscribe(listener: ChangeListener): () => void;
+  subscribe(files: string | string[], listener: ChangeListener): () => void;
+  subscribe(
+    filesOrListener: string | string[] | ChangeListener,
+    maybeListener?: ChangeListener,
+  ) {
+    const subscription =
+      typeof filesOrListener === "function"
+        ? { listener: filesOrListener }
+        : {
+            files: Array.isArray(filesOrListener)
+              ? filesOrListener
+              : [filesOrListener],
+            listener: maybeListener!,
+          };
+    this._subscriptions.add(subscription);
+    return () => {
+      this._subscriptions.delete(subscription);
+    };
+  }
+
+  private notify(changes: ChangeEvent[]) {
+    const { logger } = this;
+    this._git?.record(changes);
+    for (const { files, listener } of this._subscriptions) {
+      const matched = !files
+        ? changes
+        : changes.filter((change) => {
+            const paths = [change.node.path];
+            if (change.type === "moved" || change.type === "renamed") {
+              paths.push(change.from);
+            }
+            // A directory matches if the patterns could match within it.
+            const partial = change.node.isDir;
+            return paths.some((path) =>
+              files.some((pattern) => minimatch(path, pattern, { partial })),
+            );
+          });
+      if (matched.length < 1) {
+        continue;
+      }
+      try {
+        listener(matched);
+      } catch (ex) {
+        logger.warn("Change listener failed.", ex);
+      }
+    }
+  }
+  // #endregion
+
+  // #region Git
+  /**
+   * Returns the git commits which changed the given node id, most recent
+   * first, following a file across renames. Requires {@link Config.git}.
+   */
+  async revisions(id: string) {
+    const git = this.gitHistory();
+    const path = await this.transaction((trx) => trx.path(id));
+    if (path === undefined) {
+      throw new NodeNotFoundError(id);
+    }
+    return git.log(path);
+  }
+  /**
+   * Returns the content of the file at the given path, relative to the
+   * database root, at the given git revision or `undefined` if not found.
+   * See {@link revisions} for the path of a file at each revision.
+   */
+  async readRevision<T = any>(path: string, revision: string) {
+    return this.gitHistory().readAt<T>(path, revision);
+  }
+
+  private gitHistory() {
+    if (!this._git) {
+      throw new Error(`Git is not configured for ${this}.`);
+    }
+    return this._git;
+  }
+  // #endregion
 
-  async transaction<T>(cb: TransactionCallback<T>): Promise<T> {
-    const runner = new TransactionRunner<T>(this.driver, cb);
+  // #region History
+  /**
+   * Re-applies the last undone change of the given node id, or of the node
+   * most recently undone when no id is given. Returns `true` if redone.
+   */
+  async redo(id?: string) {
+    return this.transaction((trx) => trx.redo(id));
+  }
+  /**
+   * Reverts the last change of the given node id, or of the node most
+   * recently changed when no id is given. Returns `true` if undone.
+   */
+  async undo(id?: string) {
+    return this.transaction((trx) => trx.undo(id));
+  }
+  // #endregion
+
+  // #region Transactions
+  /**
+   * Runs the callback in a transaction after those already queued, committing
+   * the changes it makes unless it throws. Rejects with a
+   * {@link DatabaseClosedError} right away if the database isn't opened.
+   */
+  async transaction<T>(cb: TransactionCallback<T, DB>): Promise<T> {
+    if (!this._opened) {
+      throw new DatabaseClosedError(this.path);
+    }
+    const runner = new TransactionRunner<T, DB>(this.driver, cb);
     this._transactionQueue.push(runner);
-    this.processTransactionQueue();
+    if (!this._transactionsRunning) {
+      this._transactionsRunning = this.processTransactionQueue();
+    }
     return runner.completed;
   }
-
+  /**
+   * Runs the queued transactions one at a time. A failed transaction only
+   * rejects it's own caller, so the transactions queued after it still run.
+   */
   private async processTransactionQueue() {
-    if (this._transactionsRunning) {
-      return;
-    }
-    this._transactionsRunning = true;
     const { _transactionQueue: queue } = this;
-    while (queue.length > 0 && this._opened) {
-      const runner = queue.shift();
-      if (runner) {
+    let runner: TransactionRunner | undefined;
+    while ((runner = queue.shift())) {
+      if (!this._opened) {
+        runner.reject(new DatabaseClosedError(this.path));
+        continue;
+      }
+      try {
         const result = await runner.run();
-        if (result.err) {
-          // TODO: Better error handling...
-          console.error("Transaction", result.err);
-          break;
+        if (result.err instanceof JdexError) {
+          // An expected failure, e.g. invalid input, handled by the caller.
+          this.logger.debug("Transaction failed.", result.err);
+        } else if (result.err) {
+          this.logger.error("Transaction failed.", result.err);
         }
+      } catch (ex) {
+        // e.g. the rollback failed too.
+        this.logger.error("Transaction failed to roll back.", ex);
+        runner.reject(ex);
       }
+      await this._git?.settle();
     }
-    this._transactionsRunning = false;
+    // Cleared in the same tick the queue is found empty, so that the next
+    // transaction queued starts processing again.
+    this._transactionsRunning = undefined;
   }
   // #endregion
 }
 
-class TransactionRunner<T = any> {
-  callback: TransactionCallback<T>;
+class TransactionRunner<T = any, DB = any> {
+  callback: TransactionCallback<T, DB>;
   completed: Promise<T>;
-  driver: Driver;
-  reject: (reason?: T) => void;
+  driver: Driver<DB>;
+  reject: (reason?: unknown) => void;
   resolve: (value: T | PromiseLike<T>) => void;
 
-  constructor(driver: Driver, callback: TransactionCallback<T>) {
+  constructor(driver: Driver<DB>, callback: TransactionCallback<T, DB>) {
     this.driver = driver;
     this.callback = callback;
     let onRejected: TransactionRunner["reject"];
@@ -198,30 +423,23 @@ class TransactionRunner<T = any> {
     let err: any | undefined;
     let value: T | undefined;
 
-    let maybePromise: any = undefined;
+    let transaction: Transaction<DB> | undefined;
     try {
-      const transaction = driver.createTransaction();
-      maybePromise = callback(transaction);
+      transaction = driver.createTransaction();
+      value = await callback(transaction);
+      if (!transaction.completed) {
+        await transaction.commit();
+      }
     } catch (ex) {
       err = ex;
+      if (transaction && !transaction.completed) {
+        await transaction.rollback();
+      }
     }
-    if (maybePromise && typeof maybePromise.then === "function") {
-      await maybePromise
-        .then((val?: any) => {
-          value = val;
-          // console.log("TRX-RESOLVED", val);
-          resolve(val);
-        })
-        .catch((reason?: any) => {
-          err = reason;
-          // console.log("TRX-REJECTED", reason);
-          reject(reason);
-        });
-    } else if (err) {
+    if (err) {
       // console.log("TRX-REJECT", err);
       reject(err);
     } else {
-      value = maybePromise;
       // console.log("TRX-RESOLVE", value);
       resolve(value!);
     }
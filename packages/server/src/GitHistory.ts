@@ -0,0 +1,245 @@
+import FS from "node:fs";
+import Path from "node:path";
+import { simpleGit, type SimpleGit } from "simple-git";
+// Local
+import { getFileFormat } from "@/drivers/fs/formats";
+import type { ChangeEvent, GitConfig, ILogger, NodeRevision } from "@/types";
+
+/** Field separator of the git log format. */
+const SEP = "\x1f";
+
+/**
+ * Commits the changes of transactions to the git repository containing the
+ * database root and reads the history of it's files.
+ */
+export class GitHistory {
+  /** Object name for the default `toString` implementation. */
+  public readonly [Symbol.toStringTag]: string = "GitHistory";
+  /** The database root path. */
+  public readonly path: string;
+
+  private _config: GitConfig;
+  /** Committed changes, awaiting the next git commit. */
+  private _changes: ChangeEvent[] = [];
+  /** The last git commit, to commit one at a time. */
+  private _committing: Promise<void> = Promise.resolve();
+  private _git: SimpleGit;
+  private _logger: ILogger;
+  /** Path of the database root relative to the repository root, e.g. `"data/"`. */
+  private _prefix: Promise<string> | undefined;
+  private _timer: ReturnType<typeof setTimeout> | undefined;
+
+  constructor(path: string, config: GitConfig, logger: ILogger) {
+    this.path = path;
+    this._config = config;
+    this._git = simpleGit({ baseDir: path });
+    this._logger = logger;
+  }
+
+  // #region Commits
+  /**
+   * Records changes made by a transaction to commit after the configured
+   * {@link GitConfig.batch} delay, if {@link GitConfig.autoCommit} is on.
+   */
+  record(changes: ChangeEvent[]) {
+    const { autoCommit, batch = 0 } = this._config;
+    const made = changes.filter((it) => !it.external);
+    if (!autoCommit || made.length < 1) {
+      return;
+    }
+    this._changes.push(...made);
+    if (batch <= 0) {
+      this.commit();
+    } else if (!this._timer) {
+      this._timer = setTimeout(() => this.commit(), batch);
+    }
+  }
+
+  /** Commits all recorded changes now. Called when the database closes. */
+  async flush() {
+    if (this._changes.length > 0) {
+      this.commit();
+    }
+    await this._committing;
+  }
+
+  /**
+   * Waits for running commits, so that the next transaction doesn't change
+   * files while they're added to a commit.
+   */
+  async settle() {
+    await this._committing;
+  }
+
+  private commit() {
+    clearTimeout(this._timer);
+    this._timer = undefined;
+    const changes = this._changes;
+    this._changes = [];
+    this._committing = this._committing.then(async () => {
+      try {
+        // Commit only the changed paths, not other changes within the root.
+        const paths = (await this.committablePaths(changedPaths(changes))).map(
+          literal,
+        );
+        if (paths.length < 1) {
+          return;
+        }
+        await this._git.raw(["add", "--all", "--", ...paths]);
+        const staged = await this._git.raw([
+          "diff",
+          "--cached",
+          "--name-only",
+          "--no-renames",
+          "--relative",
+          "-z",
+          "--",
+          ...paths,
+        ]);
+        // Files staged within the paths, since empty directories aren't.
+        const files = staged.split("\0").filter(Boolean).map(literal);
+        if (files.length < 1) {
+          return;
+        }
+        const message = createCommitMessage(changes);
+        await this._git.raw(["commit", "--message", message, "--", ...files]);
+      } catch (ex) {
+        this._logger.warn("Git commit failed.", ex);
+      }
+    });
+  }
+  /**
+   * Returns the paths which git can commit, i.e. those tracked by git, e.g.
+   * removed files, or which exist and aren't ignored by it.
+   */
+  private async committablePaths(paths: string[]) {
+    const exists = await Promise.all(
+      paths.map((path) =>
+        FS.promises.access(Path.join(this.path, path)).then(
+          () => true,
+          () => false,
+        ),
+      ),
+    );
+    const [tracked, ignored] = (
+      await Promise.all([
+        this._git.raw(["ls-files", "-z", "--", ...paths.map(literal)]),
+        // Exits with 1 when none are ignored.
+        this._git.raw(["check-ignore", "-z", "--", ...paths]).catch(() => ""),
+      ])
+    ).map((it) => it.split("\0").filter(Boolean)) as [string[], string[]];
+    return paths.filter(
+      (path, i) =>
+        tracked.some((it) => it === path || it.startsWith(path + "/")) ||
+        (exists[i] && !ignored.includes(path)),
+    );
+  }
+  // #endregion
+
+  // #region History
+  /**
+   * Returns the commits which changed the given path, relative to the
+   * database root, most recent first. Files are followed across renames.
+   */
+  async log(path: string): Promise<NodeRevision[]> {
+    const prefix = await this.prefix();
+    const isDir = await FS.promises
+      .stat(Path.join(this.path, path))
+      .then((stats) => stats.isDirectory())
+      .catch(() => false);
+    const args = [
+      "log",
+      `--format=${SEP}%H${SEP}%aI${SEP}%an${SEP}%s${SEP}`,
+      "--name-only",
+      ...(isDir ? [] : ["--follow"]),
+      "--",
+      path,
+    ];
+    const output = await this._git.raw(args);
+    const revisions: NodeRevision[] = [];
+    // Each commit has 5 fields, the last being the names changed.
+    const fields = output.split(SEP).slice(1);
+    for (let i = 0; i + 4 < fields.length; i += 5) {
+      const [hash, date, author, message, names] = fields.slice(i, i + 5) as [
+        string,
+        string,
+        string,
+        string,
+        string,
+      ];
+      // The name at the revision is the last line, e.g. after a rename.
+      const name = names.trim().split("\n").pop() ?? "";
+      revisions.push({
+        hash,
+        date: new Date(date),
+        author,
+        message: message.trim(),
+        path:
+          !isDir && name.startsWith(prefix)
+            ? name.substring(prefix.length)
+            : path,
+      });
+    }
+    return revisions;
+  }
+
+  /**
+   * Returns the content of the file at the given path, relative to the
+   * database root, at the given revision or `undefined` if not found.
+   */
+  async readAt<T = unknown>(path: string, revision: string) {
+    try {
+      const text = await this._git.show([`${revision}:./${path}`]);
+      return getFileFormat(path).parse(text) as T;
+    } catch (ex) {
+      return undefined;
+    }
+  }
+
+  /** Returns the path of the root relative to the repository root. */
+  private prefix() {
+    if (!this._prefix) {
+      this._prefix = this._git
+        .revparse(["--show-prefix"])
+        .then((prefix) => prefix.trim().split(Path.sep).join("/"));
+    }
+    return this._prefix;
+  }
+  // #endregion
+}
+
+/**
+ * Returns the paths changed, including the previous path of each moved or
+ * renamed node and the paths of removed nodes.
+ */
+function changedPaths(changes: ChangeEvent[]) {
+  const paths = new Set<string>();
+  for (const change of changes) {
+    paths.add(change.node.path);
+    if (change.type === "moved" || change.type === "renamed") {
+      paths.add(change.from);
+    }
+  }
+  return [...paths];
+}
+
+/**
+ * Creates a commit message with a summary line of the changed paths and a
+ * line for each change.
+ */
+function createCommitMessage(changes: ChangeEvent[]) {
+  const paths = [...new Set(changes.map((it) => it.node.path))];
+  const shown = paths.slice(0, 3).join(", ");
+  const more = paths.length > 3 ? ` and ${paths.length - 3} more` : "";
+  const lines = changes.map((change) =>
+    change.type === "moved" || change.type === "renamed"
+      ? `- ${change.type} ${change.from} -> ${change.node.path}`
+      : `- ${change.type} ${change.node.path}`,
+  );
+  return `Update ${shown}${more}\n\n${lines.join("\n")}`;
+}
+
+/** Returns a git pathspec matching the path literally, e.g. with `[`. */
+function literal(path: string) {
+  return `:(literal)${path}`;
+}
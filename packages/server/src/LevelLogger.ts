@@ -0,0 +1,58 @@
+import type { ILogger, LogLevel } from "@/types";
+
+/** Severity of each {@link LogLevel}, where `"log"` is `"info"`. */
+const severity: Record<LogLevel, number> = {
+  debug: 0,
+  info: 1,
+  warn: 2,
+  error: 3,
+  silent: 4,
+};
+
+/**
+ * Passes entries at or above a minimum {@link LogLevel} to another logger,
+ * e.g. `console` or an application's own logger.
+ */
+export class LevelLogger implements ILogger {
+  /** Object name for the default `toString` implementation. */
+  public readonly [Symbol.toStringTag]: string = "LevelLogger";
+  /** The minimum level of entries passed to the {@link target}. */
+  public readonly level: LogLevel;
+  /** The logger to pass entries to. */
+  public readonly target: ILogger;
+
+  constructor(target: ILogger, level: LogLevel = "info") {
+    if (!(level in severity)) {
+      throw new Error(`Unknown log level - "${level}"`);
+    }
+    this[Symbol.toStringTag] = `LevelLogger("${level}")`;
+    this.level = level;
+    this.target = target;
+  }
+
+  /** Returns `true` if entries of the given level are passed on. */
+  enabled(level: LogLevel) {
+    return severity[level] >= severity[this.level];
+  }
+
+  debug(message: string, ...optionalParams: any[]) {
+    if (this.enabled("debug")) {
+      this.target.debug(message, ...optionalParams);
+    }
+  }
+  error(message: string, ...optionalParams: any[]) {
+    if (this.enabled("error")) {
+      this.target.error(message, ...optionalParams);
+    }
+  }
+  log(message: string, ...optionalParams: any[]) {
+    if (this.enabled("info")) {
+      this.target.log(message, ...optionalParams);
+    }
+  }
+  warn(message: string, ...optionalParams: any[]) {
+    if (this.enabled("warn")) {
+      this.target.warn(message, ...optionalParams);
+    }
+  }
+}
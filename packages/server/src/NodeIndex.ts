@@ -0,0 +1,133 @@
+import { minimatch } from "minimatch";
+// Local
+import type { IndexDefinition } from "@/types";
+
+/** Values that can be indexed. */
+export type IndexValue = string | number | boolean;
+
+/** A secondary index of file node ids by values in their content. */
+export class NodeIndex {
+  /** Object name for the default `toString` implementation. */
+  public readonly [Symbol.toStringTag]: string = "NodeIndex";
+  /** The index definition. */
+  public readonly definition: Readonly<IndexDefinition>;
+  /** Name of the index. */
+  public readonly name: string;
+
+  /** Node ids by indexed value. */
+  private _ids = new Map<IndexValue, Set<string>>();
+  private _patterns: string[];
+  /** Indexed values by node id. */
+  private _values = new Map<string, IndexValue[]>();
+
+  constructor(name: string, definition: IndexDefinition) {
+    const { field, extract, files } = definition;
+    if (!field && !extract) {
+      throw new Error(`Index requires a field or extract function - "${name}"`);
+    }
+    this[Symbol.toStringTag] = `NodeIndex("${name}")`;
+    this.definition = definition;
+    this.name = name;
+    this._patterns = Array.isArray(files) ? files : [files];
+  }
+
+  clear() {
+    this._ids.clear();
+    this._values.clear();
+  }
+  /**
+   * Returns the first value of `values` indexed for another node id along
+   * with that id, if the index is unique. Pass no `id` for a new node.
+   */
+  conflict(id: string | undefined, values: IndexValue[]) {
+    if (!this.definition.unique) {
+      return undefined;
+    }
+    for (const value of values) {
+      for (const otherId of this._ids.get(value) ?? []) {
+        if (otherId !== id) {
+          return { id: otherId, value };
+        }
+      }
+    }
+    return undefined;
+  }
+
+  delete(id: string) {
+    const { _ids, _values } = this;
+    const values = _values.get(id);
+    if (!values) {
+      return;
+    }
+    for (const value of values) {
+      const ids = _ids.get(value);
+      ids?.delete(id);
+      if (ids?.size === 0) {
+        _ids.delete(value);
+      }
+    }
+    _values.delete(id);
+  }
+  /**
+   * Returns the values to index for the file path and content, an empty array
+   * if the path doesn't match or there are no values.
+   */
+  extract(path: string, content: unknown): IndexValue[] {
+    const { definition } = this;
+    if (!this.matches(path)) {
+      return [];
+    }
+    const { extract, field } = definition;
+    const extracted = extract
+      ? extract(content, path)
+      : getField(content, field!);
+    const values = Array.isArray(extracted) ? extracted : [extracted];
+    return values.filter(isIndexValue);
+  }
+  /** Returns `true` if the index `files` patterns match the file path. */
+  matches(path: string) {
+    return this._patterns.some((pattern) => minimatch(path, pattern));
+  }
+  /** Returns the node ids indexed with the given value. */
+  lookup(value: IndexValue): string[] {
+    return [...(this._ids.get(value) ?? [])];
+  }
+  /** Returns the values indexed for the node id. */
+  values(id: string): IndexValue[] {
+    return this._values.get(id) ?? [];
+  }
+  /** Sets the values indexed for the node id. */
+  set(id: string, values: IndexValue[]) {
+    const { _ids, _values } = this;
+    this.delete(id);
+    if (values.length < 1) {
+      return;
+    }
+    _values.set(id, values);
+    for (const value of values) {
+      let ids = _ids.get(value);
+      if (!ids) {
+        ids = new Set<string>();
+        _ids.set(value, ids);
+      }
+      ids.add(id);
+    }
+  }
+}
+
+/** Gets a value by dot separated field path, e.g. `"table.name"`. */
+function getField(content: unknown, field: string) {
+  let value: any = content;
+  for (const key of field.split(".")) {
+    if (value === null || typeof value !== "object") {
+      return undefined;
+    }
+    value = value[key];
+  }
+  return value;
+}
+
+function isIndexValue(value: unknown): value is IndexValue {
+  const type = typeof value;
+  return type === "string" || type === "number" || type === "boolean";
+}
@@ -0,0 +1,111 @@
+import {
+  NodeNotFoundError,
+  SchemaMismatchError,
+  SchemaNotFoundError,
+  ValidationError,
+} from "@/errors";
+import type {
+  Model,
+  NameConflictOptions,
+  QueryInterface,
+  SchemaProvider,
+} from "@/types";
+
+/**
+ * Typed access to the files of a schema within a transaction.
+ * @typeParam T - The file content type of the schema.
+ */
+export class TransactionModel<T> implements Model<T> {
+  /** Object name for the default `toString` implementation. */
+  public readonly [Symbol.toStringTag]: string = "TransactionModel";
+  /** Name of the schema. */
+  public readonly name: string;
+
+  private _schemas: SchemaProvider<any>;
+  private _trx: QueryInterface;
+
+  constructor(trx: QueryInterface, schemas: SchemaProvider<any>, name: string) {
+    if (!schemas.get(name)) {
+      throw new SchemaNotFoundError(name);
+    }
+    this[Symbol.toStringTag] = `TransactionModel("${name}")`;
+    this.name = name;
+    this._schemas = schemas;
+    this._trx = trx;
+  }
+
+  async addFile(
+    name: string,
+    {
+      data,
+      pId,
+      ...options
+    }: { data: T; pId?: string | null } & NameConflictOptions,
+  ): Promise<string> {
+    const { _trx } = this;
+    const pPath = pId ? _trx.path(pId) : undefined;
+    const path = pPath ? `${pPath}/${name.trim()}` : name.trim();
+    this.assertMatch(path);
+    this.validate(path, data);
+    return _trx.addFile(name, { data, pId, ...options });
+  }
+
+  async get(id: string): Promise<T | undefined> {
+    const path = this._trx.path(id);
+    if (!path) {
+      return undefined;
+    }
+    this.assertMatch(path);
+    return this._trx.get<T>(id);
+  }
+
+  async read(path: string): Promise<T | undefined> {
+    const id = this._trx.id(path);
+    return id ? this.get(id) : undefined;
+  }
+
+  async update(id: string, fn: (data: T) => T | void): Promise<T> {
+    const path = this.assertFile(id);
+    return this._trx.update<T>(id, (data) => {
+      const updated = fn(data) ?? data;
+      this.validate(path, updated);
+      return updated;
+    });
+  }
+
+  async write(id: string, data: T): Promise<void> {
+    const path = this.assertFile(id);
+    this.validate(path, data);
+    return this._trx.write(id, data);
+  }
+
+  /** Throws if the file id is not found or doesn't match the schema. */
+  private assertFile(id: string) {
+    const path = this._trx.path(id);
+    if (!path) {
+      throw new NodeNotFoundError(id);
+    }
+    this.assertMatch(path);
+    return path;
+  }
+  /** Throws if the path doesn't match the schema `files` patterns, if any. */
+  private assertMatch(path: string) {
+    const { _schemas, name } = this;
+    if (!_schemas.get(name)?.files) {
+      return;
+    }
+    if (!_schemas.match(path).some((it) => it.name === name)) {
+      throw new SchemaMismatchError({ path, schema: name });
+    }
+  }
+  /** Throws a {@link ValidationError} if data doesn't match the schema. */
+  private validate(path: string, data: unknown) {
+    const { _schemas, name } = this;
+    const errors = _schemas.errors(name, data);
+    if (errors.length > 0) {
+      throw new ValidationError(
+        errors.map((it) => ({ ...it, file: path, schema: name })),
+      );
+    }
+  }
+}
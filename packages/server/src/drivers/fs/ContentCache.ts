@@ -0,0 +1,101 @@
+import type { Node } from "./types";
+
+/**
+ * Tracks the file nodes with loaded content, least recently used first, and
+ * unloads the content of the least recently used when the total size of the
+ * content exceeds the {@link maxSize}. Pinned nodes, e.g. with changes not
+ * yet written, are never unloaded.
+ */
+export class ContentCache {
+  /** Object name for the default `toString` implementation. */
+  public readonly [Symbol.toStringTag]: string = "ContentCache";
+  /** Maximum total size of loaded content, in bytes of JSON text. */
+  public readonly maxSize: number;
+
+  /** Size of the content of each loaded node, least recently used first. */
+  private _entries = new Map<Node, number>();
+  private _pinned = new Set<Node>();
+  private _size = 0;
+
+  constructor(maxSize: number) {
+    this.maxSize = maxSize;
+  }
+
+  /** Total size of loaded content, in bytes of JSON text. */
+  get size() {
+    return this._size;
+  }
+
+  /**
+   * Adds or updates a node with loaded content of the given size, optionally
+   * {@link pin}ning it.
+   */
+  add(node: Node, size: number, pin = false) {
+    this.delete(node);
+    if (pin) {
+      this._pinned.add(node);
+    }
+    this._entries.set(node, size);
+    this._size += size;
+    this.evict();
+  }
+
+  clear() {
+    this._entries.clear();
+    this._pinned.clear();
+    this._size = 0;
+  }
+
+  /** Removes a node from the cache, leaving it's content as is. */
+  delete(node: Node) {
+    const size = this._entries.get(node);
+    if (size !== undefined) {
+      this._entries.delete(node);
+      this._size -= size;
+    }
+  }
+
+  /** Returns `true` if the node's content is loaded. */
+  has(node: Node) {
+    return this._entries.has(node);
+  }
+
+  /** Keeps the node's content loaded until {@link unpin}ned. */
+  pin(node: Node) {
+    this._pinned.add(node);
+  }
+
+  /** Marks the node's content as the most recently used. */
+  touch(node: Node) {
+    const size = this._entries.get(node);
+    if (size !== undefined) {
+      this._entries.delete(node);
+      this._entries.set(node, size);
+    }
+  }
+
+  unpin(node: Node) {
+    if (this._pinned.delete(node)) {
+      this.evict();
+    }
+  }
+
+  /** Unloads least recently used content until within the maximum size. */
+  private evict() {
+    const { _entries, _pinned, maxSize } = this;
+    if (this._size <= maxSize) {
+      return;
+    }
+    for (const [node, size] of _entries) {
+      if (_pinned.has(node)) {
+        continue;
+      }
+      _entries.delete(node);
+      node.content = undefined;
+      this._size -= size;
+      if (this._size <= maxSize) {
+        break;
+      }
+    }
+  }
+}
@@ -2,12 +2,36 @@ import Path from "node:path";
 import FS from "node:fs";
 import FSP from "node:fs/promises";
 import { customAlphabet } from "nanoid";
-// import * as JsonPatch from "fast-json-patch";
-import { glob } from "glob";
+import isDeepEqual from "fast-deep-equal";
+import { Path as GlobPath, glob } from "glob";
 // Local
 import type { Database } from "@/Database";
-import { CreateNodeOptions, Driver, Transaction } from "@/types";
 import {
+  DatabaseClosedError,
+  IndexNotFoundError,
+  NodeNotFoundError,
+  UniqueIndexError,
+  ValidationError,
+} from "@/errors";
+import { type IndexValue, NodeIndex } from "@/NodeIndex";
+import {
+  ChangeEvent,
+  ChangeListener,
+  CreateNodeOptions,
+  Driver,
+  ILogger,
+  IndexDefinition,
+  NodeInfo,
+  NodeChange,
+  OpenOptions,
+  OpenResult,
+  SchemaProvider,
+  SkippedFile,
+  Transaction,
+  ValidationIssue,
+} from "@/types";
+import {
+  FsOperation,
   IdsFile,
   MapNodeDefault,
   MapNodeFn,
@@ -15,7 +39,11 @@ import {
   VisitNodeFn,
   isDirectoryNode,
 } from "./types";
+import { ContentCache } from "./ContentCache";
+import { getFileFormat } from "./formats";
+import { IgnoreRules } from "./IgnoreRules";
 import FsTransaction from "./FsTransaction";
+import { FsWatcher } from "./FsWatcher";
 
 /**
  * Generates a short (9 char) id for use in a JavaScript {@link Map}.
@@ -29,26 +57,73 @@ import FsTransaction from "./FsTransaction";
  */
 const createShortId = customAlphabet("0123456789abcdefghijklmnopqrstuvwxyz", 9);
 
-export class FsDriver implements Driver {
+/** Extension of temporary files written by {@link writeFileAtomic}. */
+const TEMP_FILE_EXT = ".jdex-tmp";
+/**
+ * Name prefix of the directories in the root which hold the removed and
+ * overwritten files of a transaction until it's applied. Like all dot files,
+ * they're never loaded.
+ */
+const TRASH_DIR_PREFIX = ".jdex-trx-";
+
+export class FsDriver<DB = any> implements Driver<DB> {
   /** Object name for the default `toString` implementation. */
   public readonly [Symbol.toStringTag]: string = "FsDriver";
 
+  /** Loaded file content, when loading lazily. See {@link FsLazyConfig}. */
+  private _cache: ContentCache | undefined;
+  protected _db: Database<DB>;
   private _idsPath: string | undefined;
+  /** Rules of the paths to ignore. See {@link FsDriverConfig.ignore}. */
+  private _ignore: IgnoreRules;
+  /** Index definitions by name, from {@link Database.indexes}. */
+  private _indexDefinitions: Map<string, IndexDefinition>;
+  /** Secondary indexes by name, built on {@link open}. */
+  private _indexes = new Map<string, NodeIndex>();
+  protected _logger: ILogger;
+  private _onChange: ChangeListener | undefined;
   /** Directory and File nodes by id. */
   private _nodes = new Map<string, Node>();
   /** `true` if {@link FsDriver.open}, `false` if {@link FsDriver.close}d */
   private _opened = false;
+  /** Directory and File nodes by path, relative to the root. */
+  private _nodesByPath = new Map<string, Node>();
   /** Meta-data for each Node, just their relative paths for now. */
   private _paths = new WeakMap<Node, string>();
   /** Depth of the root {@link path} children in absolute fs path. */
   private _rootChildDepth = 0;
   /** Root Directory and File nodes. */
   private _rootNodes = new Set<Node>();
+  /** Files which couldn't be read when opened. */
+  private _skipped: SkippedFile[] = [];
+  private _watcher: FsWatcher | undefined;
+  /** Ids of changed nodes, most recent last, for a database wide undo. */
+  private _undoIds: string[] = [];
+  /** Ids of undone nodes, most recent last, for a database wide redo. */
+  private _redoIds: string[] = [];
+  /**
+   * Indexed values of removed files by index name, to index them again if
+   * restored after their content was unloaded.
+   */
+  private _unindexed = new WeakMap<Node, Map<string, IndexValue[]>>();
 
+  /** Extensions of the files to load. See {@link FsDriverConfig.extensions}. */
+  public readonly extensions: string[];
+  /** Maximum number of changes kept in each undo history. */
+  public readonly historyDepth: number;
   /** The root file path of the database. */
   public readonly path: string;
+  /** Schemas to validate file content with. */
+  public readonly schemas: SchemaProvider<any>;
 
-  constructor({ db }: { db: Database<any> }) {
+  constructor({
+    db,
+    onChange,
+  }: {
+    db: Database<DB>;
+    /** Called with the changes of each committed transaction. */
+    onChange?: ChangeListener;
+  }) {
     const { configFile, path } = db;
     let idsPath = db.config.fs?.ids;
     if (configFile && idsPath !== false) {
@@ -61,29 +136,61 @@ export class FsDriver implements Driver {
       const configDir = Path.dirname(configFile);
       this._idsPath = Path.resolve(configDir, idsPath);
     }
-    this[Symbol.toStringTag] = `FsDriver("${path}")`;
+    const lazy = db.config.fs?.lazy;
+    if (lazy && (db.config.type ?? "fs") === "fs") {
+      const { cacheSize = 67108864 } = typeof lazy === "object" ? lazy : {};
+      this._cache = new ContentCache(cacheSize);
+    }
+    this[Symbol.toStringTag] = `${this.constructor.name}("${path}")`;
+    this._db = db;
+    this._indexDefinitions = db.indexes;
+    this._logger = db.logger;
+    this._onChange = onChange;
+    this.schemas = db.schemas;
     this._rootChildDepth = path.split(Path.sep).length;
+    this.extensions = db.config.fs?.extensions ?? [".json"];
+    this._ignore = new IgnoreRules(path, {
+      gitignore: db.config.fs?.gitignore,
+      patterns: db.config.fs?.ignore ?? ["node_modules/"],
+    });
+    this.historyDepth = db.config.historyDepth ?? 100;
     this.path = path;
   }
 
-  createTransaction(): Transaction {
-    return new FsTransaction(this);
+  createTransaction(): Transaction<DB> {
+    return new FsTransaction<DB>(this);
   }
 
   // #region Lifecycle
   /** Closes the database if opened. */
   async close() {
-    const { _idsPath, _opened } = this;
+    const { _idsPath, _opened, _watcher } = this;
     if (!_opened) {
       return;
     }
+    if (_watcher) {
+      _watcher.close();
+      this._watcher = undefined;
+    }
     if (_idsPath) {
       await this.writeIdsFile();
     }
     // Save state.
+    this.resetNodes();
+    this._undoIds = [];
+    this._redoIds = [];
+    this._opened = false;
+  }
+
+  /** Forgets all nodes with their paths, indexed values and cached content. */
+  private resetNodes() {
+    this._cache?.clear();
     this._nodes = new Map<string, Node>();
+    this._nodesByPath = new Map<string, Node>();
+    this._paths = new WeakMap<Node, string>();
     this._rootNodes = new Set<Node>();
-    this._opened = false;
+    this._indexes = new Map<string, NodeIndex>();
+    this._unindexed = new WeakMap<Node, Map<string, IndexValue[]>>();
   }
 
   private async loadIdsFile(): Promise<IdsFile | undefined> {
@@ -95,38 +202,74 @@ export class FsDriver implements Driver {
       return;
     }
     const idsFileJson = (await FSP.readFile(_idsPath)).toString();
-    const idsFile = JSON.parse(idsFileJson) as IdsFile;
-    return idsFile;
+    try {
+      return JSON.parse(idsFileJson) as IdsFile;
+    } catch (ex) {
+      // New ids are assigned, so references to the old ids are broken.
+      this._logger.warn(`Ignored unreadable ids file "${_idsPath}".`, ex);
+      return undefined;
+    }
   }
   /**
-   * Loads all directories and files within the root path using cached ids
-   * from the {@link Config.ids} file, if any.
+   * Loads all directories and files, then builds indexes and validates.
+   * Returns the files which couldn't be read, e.g. partially written files,
+   * which are left out of the database.
    */
-  async open() {
-    const { _opened, _rootChildDepth, path } = this;
+  async open(options: OpenOptions = {}): Promise<OpenResult> {
+    const { _opened, path } = this;
     if (_opened) {
-      throw new Error(`FsDriver is already opened - ${path}`);
+      throw new Error(`${this.constructor.name} is already opened - ${path}`);
     }
+    const start = performance.now();
+    this._skipped = [];
+    await this.load();
+    this.buildPathIndex();
+    await this.buildIndexes();
+    if (options.validate) {
+      await this.validateAll(options.validate);
+    }
+    this._opened = true;
+    this.watch();
+    this._logger.debug(`Opened ${this}.`, {
+      nodes: this._nodes.size,
+      ms: Math.round(performance.now() - start),
+    });
+    const skipped = this._skipped;
+    this._skipped = [];
+    if (skipped.length > 0) {
+      this._logger.warn(
+        `Skipped ${skipped.length} unreadable file(s) in ${this}:\n` +
+          skipped.map((it) => `  ${it.path} - ${it.error}`).join("\n"),
+      );
+    }
+    return { skipped };
+  }
+  /**
+   * Records a file which couldn't be read while opening, to report from
+   * {@link open}.
+   */
+  protected skipFile(path: string, error: unknown) {
+    this._skipped.push({
+      path,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+  /**
+   * Loads all directories and files within the root path using cached ids
+   * from the {@link Config.ids} file, if any. File content is loaded later
+   * when loading lazily.
+   */
+  protected async load() {
+    const { _rootChildDepth, path } = this;
     const rootStat = await FSP.stat(path);
     // console.log("OPENING", rootStat);
     if (!rootStat.isDirectory()) {
       throw new Error(`Expected path to be a directory.`);
     }
-    const srcNodes = (
-      await glob(matchAllDirsAndFileExt([".json"]), {
-        cwd: path,
-        dot: false,
-        // ignore: ["node_modules/**"],
-        stat: true,
-        withFileTypes: true,
-      })
-    ).sort((a, b) => {
-      // IMPORTANT: Sort by path so that parents come before their children and
-      // the children are sorted alphabetically.
-      const p1 = a.relative(),
-        p2 = b.relative();
-      return p1 > p2 ? 1 : p2 > p1 ? -1 : 0;
-    });
+    if ((this._db.config.type ?? "fs") === "fs") {
+      await this.removeTempFiles();
+    }
+    const srcNodes = await this.scan();
     const dirty = this._nodes.size > 0;
     // CONSIDER: Currently, dirty is never true; _nodes are reset in close().
     const nodes = !dirty ? this._nodes : new Map<string, Node>();
@@ -145,6 +288,17 @@ export class FsDriver implements Driver {
       const isRootDepth = depth === _rootChildDepth;
       const pathFromRoot = srcNode.relativePosix();
       // console.log("NODE", srcNode.relative());
+      let content: unknown;
+      if (!isDirectory && !this._cache) {
+        const text = (await FSP.readFile(srcNode.fullpath())).toString();
+        try {
+          content = getFileFormat(srcNode.name).parse(text);
+        } catch (ex) {
+          // e.g. a file truncated by a crash while it was being written.
+          this.skipFile(pathFromRoot, ex);
+          continue;
+        }
+      }
       const node = this.createNode(srcNode.name, {
         id: idsFile?.[pathFromRoot],
         isDir: isDirectory,
@@ -163,19 +317,94 @@ export class FsDriver implements Driver {
         node.entry.pId = parentNode.id;
         parentNode.children!.add(node);
       }
-      if (!isDirectory) {
-        const jsonText = (await FSP.readFile(srcNode.fullpath())).toString();
-        const jsonData = JSON.parse(jsonText);
-        node.content = jsonData;
+      if (!isDirectory && !this._cache) {
+        node.content = content;
       }
     }
     // Save state.
     this._nodes = nodes;
     this._rootNodes = rootNodes;
-    this._opened = true;
+  }
+  /**
+   * Removes the trash directories and temporary files left by transactions
+   * and writes that were interrupted. The trash only holds backups of the
+   * files, without their paths, so an interrupted transaction can't be rolled
+   * back and may be partially applied.
+   */
+  private async removeTempFiles() {
+    const trashDirs = (await FSP.readdir(this.path)).filter((it) =>
+      it.startsWith(TRASH_DIR_PREFIX),
+    );
+    for (const trashDir of trashDirs) {
+      const trashPath = Path.join(this.path, trashDir);
+      this._logger.warn(
+        `Removed trash of interrupted transaction "${trashPath}", which may ` +
+          "be partially applied.",
+      );
+      await FSP.rm(trashPath, { force: true, recursive: true });
+    }
+    const tempFiles = await glob(`**/.*${TEMP_FILE_EXT}`, {
+      absolute: true,
+      cwd: this.path,
+      dot: true,
+    });
+    for (const tempFile of tempFiles) {
+      this._logger.warn(`Removed interrupted write "${tempFile}".`);
+      await FSP.rm(tempFile, { force: true });
+    }
+  }
+  /**
+   * Returns all directories and files within the root path, sorted by path so
+   * that parents come before their children.
+   */
+  private async scan() {
+    const { _ignore, path } = this;
+    // Read the ignore files again, in case they changed.
+    _ignore.clear();
+    return (
+      await glob(matchAllDirsAndFileExt(this.extensions), {
+        cwd: path,
+        dot: false,
+        ignore: {
+          ignored: (it) =>
+            _ignore.ignores(it.relativePosix(), it.isDirectory()),
+          childrenIgnored: (it) => _ignore.ignores(it.relativePosix(), true),
+        },
+        stat: true,
+        withFileTypes: true,
+      })
+    ).sort((a, b) => {
+      // IMPORTANT: Sort by path so that parents come before their children and
+      // the children are sorted alphabetically.
+      const p1 = a.relative(),
+        p2 = b.relative();
+      return p1 > p2 ? 1 : p2 > p1 ? -1 : 0;
+    });
+  }
+  /** Validates the content of all files against their matching schemas. */
+  private async validateAll(mode: NonNullable<OpenOptions["validate"]>) {
+    const issues: ValidationIssue[] = [];
+    for (const node of this._nodes.values()) {
+      const path = this.getNodePath(node);
+      if (isDirectoryNode(node) || this.schemas.match(path).length < 1) {
+        continue;
+      }
+      const content = await this.loadContent(node);
+      const found = this.validateContent(path, content);
+      if (found.length > 0) {
+        issues.push(...found);
+        if (mode === "report") {
+          this._logger.warn(new ValidationError(found).message);
+        }
+      }
+    }
+    if (mode === "refuse" && issues.length > 0) {
+      this.resetNodes();
+      throw new ValidationError(issues);
+    }
   }
 
-  private async writeIdsFile() {
+  protected async writeIdsFile() {
     const { _idsPath, _nodes, _opened } = this;
     if (!_opened || !_idsPath) {
       return;
@@ -187,7 +416,583 @@ export class FsDriver implements Driver {
       idsFile[path] = node.id;
     }
     const idsFileJson = JSON.stringify(idsFile, undefined, 2);
-    await FSP.writeFile(_idsPath, idsFileJson);
+    await writeFileAtomic(_idsPath, idsFileJson);
+    this._logger.debug("Wrote ids file.", {
+      path: _idsPath,
+      ids: _nodes.size,
+    });
+  }
+  // #endregion
+
+  // #region Operations
+  /**
+   * Applies staged file system operations in order. If any operation fails,
+   * the operations already applied are reverted in reverse order and the
+   * original error is thrown.
+   */
+  async applyOperations(operations: FsOperation[]) {
+    if (operations.length < 1) {
+      return;
+    }
+    const { path } = this;
+    /** Directory to hold removed and overwritten files until we're done. */
+    const trashPath = Path.join(path, `${TRASH_DIR_PREFIX}${createShortId()}`);
+    const applied: AppliedFsOperation[] = [];
+    try {
+      for (const op of operations) {
+        applied.push(await applyOperation(op, trashPath, applied.length));
+        if (op.type === "rename" || op.type === "write") {
+          // The content on disk is current, so it may be unloaded.
+          this.unpinContent(op.node);
+        }
+        this._logger.debug(
+          `Applied "${op.type}" operation.`,
+          describeOperation(op),
+        );
+        if ("node" in op) {
+          // Refresh the change time for the directory or file that changed.
+          const target = op.type === "rename" ? op.to : op.path;
+          op.node.entry.ctime = (await FSP.stat(target)).ctime.getTime();
+        }
+      }
+    } catch (ex) {
+      for (const op of applied.reverse()) {
+        await revertOperation(op).catch((err) => {
+          this._logger.error(
+            `Failed to revert "${op.type}" operation.`,
+            describeOperation(op),
+            err,
+          );
+        });
+      }
+      throw ex;
+    } finally {
+      await FSP.rm(trashPath, { force: true, recursive: true });
+    }
+    // Keep the ids of added, moved, renamed or removed nodes if the process
+    // ends without closing.
+    if (applied.some((op) => op.type !== "write" || op.created)) {
+      await this.persistIds();
+    }
+  }
+  /** Writes the ids file, logging instead of throwing any error. */
+  protected async persistIds() {
+    await this.writeIdsFile().catch((ex) => {
+      this._logger.error(`Failed to write ids file of ${this}.`, ex);
+    });
+  }
+  // #endregion
+
+  // #region Changes
+  /** Notifies the `onChange` listener of changes, if any. */
+  notify(changes: ChangeEvent[]) {
+    if (changes.length > 0) {
+      this._onChange?.(changes);
+    }
+  }
+  /** Returns the listing info of the node. */
+  getNodeInfo(node: Node): NodeInfo {
+    const {
+      id,
+      entry: { ctime, name, pId },
+    } = node;
+    return {
+      ctime,
+      id,
+      name,
+      pId,
+      isDir: isDirectoryNode(node),
+      path: this.getNodePath(node),
+    };
+  }
+  // #endregion
+
+  // #region Watching
+  /** Starts watching the root path if configured. */
+  private watch() {
+    const { _db, path } = this;
+    const config = _db.config.fs?.watch;
+    if (!config) {
+      return;
+    }
+    const { debounce = 100 } = typeof config === "object" ? config : {};
+    const watcher = new FsWatcher(path, {
+      debounce,
+      ignored: (path) => this._ignore.ignores(path, false),
+      directories: () => {
+        const dirs: string[] = [];
+        this.eachNode(null, (node) => {
+          if (isDirectoryNode(node)) dirs.push(this.getNodeFullPath(node));
+        });
+        return dirs;
+      },
+      onChange: () => {
+        // Reconcile within a transaction, so that it doesn't run while any
+        // other transaction is making changes.
+        _db
+          .transaction(() => this.reconcile())
+          .then(() => this._watcher?.update())
+          .catch((err) => {
+            // The database may be closed before the watcher.
+            if (!(err instanceof DatabaseClosedError)) {
+              this._logger.warn(`Failed to reconcile changes in ${this}.`, err);
+            }
+          });
+      },
+    });
+    watcher.start();
+    this._watcher = watcher;
+  }
+  /**
+   * Updates nodes to match the directories and files within the root path,
+   * keeping the ids of nodes that were renamed or moved where the directory
+   * children names or the file content are unchanged.
+   */
+  async reconcile() {
+    if (!this._opened) {
+      return;
+    }
+    const srcNodes = await this.scan();
+    const srcByPath = new Map<string, GlobPath>();
+    for (const srcNode of srcNodes) {
+      const type = srcNode.getType();
+      if (type === "Directory" || type === "File") {
+        srcByPath.set(srcNode.relativePosix(), srcNode);
+      }
+    }
+    const changes: ChangeEvent[] = [];
+    /** File content read while reconciling, by relative path. */
+    const contents = new Map<string, unknown>();
+    const readContent = async (srcPath: string) => {
+      if (!contents.has(srcPath)) {
+        contents.set(srcPath, await this.readContent(srcByPath.get(srcPath)!));
+      }
+      return contents.get(srcPath);
+    };
+    // Keep the ids of renamed or moved nodes.
+    let { added, removed } = this.diff(srcByPath);
+    let renamed = false;
+    for (const node of removed) {
+      for (const srcPath of added) {
+        const srcNode = srcByPath.get(srcPath)!;
+        const parentPath = srcNode.parent!.relativePosix();
+        const parent = parentPath ? this.getNodeByPath(parentPath) : undefined;
+        if (
+          srcNode.isDirectory() !== isDirectoryNode(node) ||
+          (parentPath && !parent)
+        ) {
+          continue;
+        }
+        const same = isDirectoryNode(node)
+          ? hasSameChildNames(node, srcPath, srcByPath)
+          : this.isContentLoaded(node) &&
+            isDeepEqual(node.content, await readContent(srcPath));
+        if (same) {
+          const from = this.getNodePath(node);
+          const moved = parent?.id !== node.entry.pId;
+          if (moved) this.moveNode(node, parent);
+          if (srcNode.name !== node.entry.name) {
+            this.renameNode(node, srcNode.name);
+          }
+          node.entry.ctime = getCtime(srcNode);
+          changes.push({
+            type: moved ? "moved" : "renamed",
+            node: this.getNodeInfo(node),
+            external: true,
+            from,
+          });
+          added = added.filter((it) => it !== srcPath);
+          renamed = true;
+          break;
+        }
+      }
+    }
+    if (renamed) {
+      ({ added, removed } = this.diff(srcByPath));
+    }
+    for (const node of removed) {
+      const info = this.getNodeInfo(node);
+      this.removeNode(node);
+      changes.push({ type: "removed", node: info, external: true });
+    }
+    // Add new nodes, parents first since added is sorted.
+    for (const srcPath of added) {
+      const srcNode = srcByPath.get(srcPath)!;
+      const isDir = srcNode.isDirectory();
+      const content = isDir ? undefined : await readContent(srcPath);
+      if (content === undefined && !isDir) {
+        continue;
+      }
+      const parentPath = srcNode.parent!.relativePosix();
+      const parent = parentPath ? this.getNodeByPath(parentPath) : undefined;
+      if (parentPath && !parent) {
+        continue;
+      }
+      const node = this.createNode(srcNode.name, {
+        isDir,
+        pId: parent?.id,
+        stats: srcNode,
+      });
+      this.setNodeParent(node, parent);
+      this.sortNodeSiblings(node);
+      if (!isDir) {
+        this.setNodeContent(node, content);
+        this._cache?.add(node, srcNode.size ?? 0);
+      }
+      changes.push({
+        type: "added",
+        node: this.getNodeInfo(node),
+        external: true,
+      });
+    }
+    // Update changed file content.
+    for (const node of this._nodes.values()) {
+      if (isDirectoryNode(node)) {
+        continue;
+      }
+      const srcPath = this.getNodePath(node);
+      const srcNode = srcByPath.get(srcPath);
+      const ctime = srcNode ? getCtime(srcNode) : node.entry.ctime;
+      if (!srcNode || ctime === node.entry.ctime) {
+        continue;
+      }
+      const content = await readContent(srcPath);
+      if (content === undefined) {
+        continue;
+      }
+      node.entry.ctime = ctime;
+      if (!this.isContentLoaded(node) || !isDeepEqual(node.content, content)) {
+        // Our history can't be applied to content changed elsewhere.
+        delete node.history;
+        delete node.futures;
+        const inverse = node.content;
+        this.setNodeContent(node, content);
+        this._cache?.add(node, srcNode.size ?? 0);
+        changes.push({
+          type: "changed",
+          node: this.getNodeInfo(node),
+          external: true,
+          patch: [{ op: "replace", path: "", value: content }],
+          inverse: [{ op: "replace", path: "", value: inverse }],
+        });
+      }
+    }
+    if (changes.length > 0) {
+      await this.persistIds();
+    }
+    this.notify(changes);
+  }
+  /**
+   * Returns the paths of sources which have no node, sorted parents first,
+   * and the top-most nodes which have no source.
+   */
+  private diff(srcByPath: Map<string, GlobPath>) {
+    const paths = new Set<string>();
+    const removed: Node[] = [];
+    this.eachNode(null, (node) => {
+      const path = this.getNodePath(node);
+      const srcNode = srcByPath.get(path);
+      if (!srcNode || srcNode.isDirectory() !== isDirectoryNode(node)) {
+        removed.push(node);
+        return false;
+      }
+      paths.add(path);
+    });
+    const added = [...srcByPath.keys()].filter((it) => !paths.has(it));
+    return { added, removed };
+  }
+  /**
+   * Reads and parses a file, returning `undefined` if it can't be read or
+   * parsed, e.g. while it's still being written.
+   */
+  private async readContent(srcNode: GlobPath) {
+    try {
+      const text = (await FSP.readFile(srcNode.fullpath())).toString();
+      return getFileFormat(srcNode.name).parse(text);
+    } catch (ex) {
+      this._logger.warn(`Skipped reading "${srcNode.relativePosix()}".`, ex);
+      return undefined;
+    }
+  }
+  // #endregion
+
+  // #region Validation
+  /**
+   * Returns issues from validating the content against each schema matching
+   * the given file path, relative to the root.
+   */
+  validateContent(path: string, content: unknown): ValidationIssue[] {
+    const issues: ValidationIssue[] = [];
+    const { schemas } = this;
+    for (const { name } of schemas.match(path)) {
+      for (const error of schemas.errors(name, content)) {
+        issues.push({ ...error, file: path, schema: name });
+      }
+    }
+    return issues;
+  }
+  // #endregion
+
+  // #region Paths
+  /** Indexes the paths of all nodes. */
+  private buildPathIndex() {
+    this._nodesByPath.clear();
+    this._paths = new WeakMap<Node, string>();
+    for (const node of this._rootNodes) {
+      this.indexNodePath(node);
+    }
+  }
+  /**
+   * Adds the path of the node and the paths of it's descendants to the path
+   * index, building each from the indexed path of it's parent.
+   */
+  private indexNodePath(node: Node) {
+    const { _nodes, _nodesByPath, _paths } = this;
+    const { name, pId } = node.entry;
+    const parent = pId ? _nodes.get(pId) : undefined;
+    const parentPath = parent ? this.getNodePath(parent) : undefined;
+    const path = parentPath !== undefined ? `${parentPath}/${name}` : name;
+    _nodesByPath.set(path, node);
+    _paths.set(node, path);
+    if (!isDirectoryNode(node)) {
+      return;
+    }
+    /** Paths of directories by node, to build the paths of their children. */
+    const dirPaths = new Map<Node, string>([[node, path]]);
+    this.eachNode(node, (it) => {
+      const itPath = `${dirPaths.get(_nodes.get(it.entry.pId!)!)}/${it.entry.name}`;
+      _nodesByPath.set(itPath, it);
+      _paths.set(it, itPath);
+      if (isDirectoryNode(it)) {
+        dirPaths.set(it, itPath);
+      }
+    });
+  }
+  /** Removes the paths of the node and it's descendants from the index. */
+  private unindexNodePath(node: Node) {
+    const { _nodesByPath, _paths } = this;
+    const unindex = (it: Node) => {
+      const path = _paths.get(it);
+      if (path !== undefined) {
+        _paths.delete(it);
+        if (_nodesByPath.get(path) === it) {
+          _nodesByPath.delete(path);
+        }
+      }
+    };
+    unindex(node);
+    if (isDirectoryNode(node)) {
+      this.eachNode(node, unindex);
+    }
+  }
+  // #endregion
+
+  // #region Indexes
+  /** Creates all defined indexes and indexes all files. */
+  private async buildIndexes() {
+    const { _indexDefinitions, _indexes, _logger } = this;
+    _indexes.clear();
+    for (const [name, definition] of _indexDefinitions) {
+      _indexes.set(name, new NodeIndex(name, definition));
+    }
+    if (_indexes.size < 1) {
+      return;
+    }
+    const indexes = [..._indexes.values()];
+    for (const node of this._nodes.values()) {
+      const path = this.getNodePath(node);
+      if (
+        isDirectoryNode(node) ||
+        !indexes.some((index) => index.matches(path))
+      ) {
+        continue;
+      }
+      const content = await this.loadContent(node);
+      for (const index of indexes) {
+        const values = index.extract(path, content);
+        const conflict = index.conflict(node.id, values);
+        if (conflict) {
+          _logger.warn(
+            new UniqueIndexError({
+              file: path,
+              index: index.name,
+              existingId: conflict.id,
+              value: conflict.value,
+            }).message,
+          );
+        }
+        index.set(node.id, values);
+      }
+    }
+  }
+  /**
+   * Throws a {@link UniqueIndexError} if writing the content to the file path
+   * would duplicate a value in a unique index.
+   */
+  checkUniqueIndexes(id: string | undefined, path: string, content: unknown) {
+    for (const index of this._indexes.values()) {
+      const conflict = index.conflict(id, index.extract(path, content));
+      if (conflict) {
+        throw new UniqueIndexError({
+          file: path,
+          index: index.name,
+          existingId: conflict.id,
+          value: conflict.value,
+        });
+      }
+    }
+  }
+  /**
+   * Updates the indexed values of the node and it's descendants. Files whose
+   * content was unloaded keep the values indexed before, or before they were
+   * removed, as long as their path still matches the index.
+   * @param contentSet `true` if the content of the node was just set.
+   */
+  private indexNode(node: Node, contentSet = false) {
+    const { _indexes, _unindexed } = this;
+    if (_indexes.size < 1) {
+      return;
+    }
+    const index = (it: Node) => {
+      if (isDirectoryNode(it)) {
+        return;
+      }
+      const path = this.getNodePath(it);
+      const loaded = (contentSet && it === node) || this.isContentLoaded(it);
+      const removedValues = _unindexed.get(it);
+      _unindexed.delete(it);
+      for (const index of _indexes.values()) {
+        if (loaded) {
+          index.set(it.id, index.extract(path, it.content));
+        } else if (!index.matches(path)) {
+          index.delete(it.id);
+        } else if (removedValues) {
+          index.set(it.id, removedValues.get(index.name) ?? []);
+        }
+      }
+    };
+    index(node);
+    if (isDirectoryNode(node)) {
+      this.eachNode(node, index);
+    }
+  }
+  /** Returns the ids of files indexed with the given value. */
+  lookup(indexName: string, value: string | number | boolean): string[] {
+    const index = this._indexes.get(indexName);
+    if (!index) {
+      throw new IndexNotFoundError(indexName);
+    }
+    return index.lookup(value);
+  }
+  /** Removes the node and it's descendants from all indexes. */
+  private unindexNode(node: Node) {
+    const { _indexes } = this;
+    if (_indexes.size < 1) {
+      return;
+    }
+    const unindex = (it: Node) => {
+      if (isDirectoryNode(it)) {
+        return;
+      }
+      const values = new Map<string, IndexValue[]>();
+      for (const index of _indexes.values()) {
+        values.set(index.name, index.values(it.id));
+        index.delete(it.id);
+      }
+      this._unindexed.set(it, values);
+    };
+    unindex(node);
+    if (isDirectoryNode(node)) {
+      this.eachNode(node, unindex);
+    }
+  }
+  // #endregion
+
+  // #region History
+  /**
+   * Returns the node of the last id in the undo (or redo) list which has
+   * changes in it's history (or futures). Ids of nodes that were removed or
+   * have no changes left are dropped from the list.
+   */
+  private findLastChangedNode(direction: "undo" | "redo") {
+    const undo = direction === "undo";
+    const ids = undo ? this._undoIds : this._redoIds;
+    let end = ids.length;
+    let found: Node | undefined;
+    while (end > 0 && !found) {
+      const node = this._nodes.get(ids[end - 1]!);
+      const changes = undo ? node?.history : node?.futures;
+      if (node && changes && changes.length > 0) {
+        found = node;
+      } else {
+        end -= 1;
+      }
+    }
+    if (end < ids.length) {
+      if (undo) this._undoIds = ids.slice(0, end);
+      else this._redoIds = ids.slice(0, end);
+    }
+    return found;
+  }
+  /** Returns the most recently changed node that has history, if any. */
+  getLastChangedNode() {
+    return this.findLastChangedNode("undo");
+  }
+  /** Returns the most recently undone node that has futures, if any. */
+  getLastUndoneNode() {
+    return this.findLastChangedNode("redo");
+  }
+  /** Records a change to the node's history and clears it's futures. */
+  recordNodeChange(node: Node, change: NodeChange) {
+    const { historyDepth } = this;
+    if (historyDepth < 1) {
+      return;
+    }
+    node.history = [...(node.history ?? []), change].slice(-historyDepth);
+    delete node.futures;
+    this._undoIds = [...this._undoIds, node.id].slice(-historyDepth);
+    this._redoIds = [];
+  }
+  /**
+   * Returns a function to restore the history of the node, and the database
+   * wide history, to what it is now.
+   */
+  saveNodeHistory(node: Node) {
+    const { history, futures } = node;
+    const { _undoIds, _redoIds } = this;
+    return () => {
+      node.history = history;
+      node.futures = futures;
+      this._undoIds = _undoIds;
+      this._redoIds = _redoIds;
+    };
+  }
+  /**
+   * Moves the last change of the node from it's history to it's futures for
+   * an `"undo"`, or from it's futures to it's history for a `"redo"`.
+   */
+  shiftNodeChange(node: Node, direction: "undo" | "redo") {
+    const { id } = node;
+    const undo = direction === "undo";
+    const from = (undo ? node.history : node.futures) ?? [];
+    const to = (undo ? node.futures : node.history) ?? [];
+    const change = from.at(-1);
+    if (!change) {
+      return;
+    }
+    const fromIds = undo ? this._undoIds : this._redoIds;
+    const toIds = undo ? this._redoIds : this._undoIds;
+    const i = fromIds.lastIndexOf(id);
+    const shifted = {
+      from: from.slice(0, -1),
+      to: [...to, change],
+      fromIds: i < 0 ? fromIds : fromIds.filter((_it, j) => j !== i),
+      toIds: [...toIds, id],
+    };
+    node.history = undo ? shifted.from : shifted.to;
+    node.futures = undo ? shifted.to : shifted.from;
+    this._undoIds = undo ? shifted.fromIds : shifted.toIds;
+    this._redoIds = undo ? shifted.toIds : shifted.fromIds;
   }
   // #endregion
 
@@ -328,7 +1133,7 @@ export class FsDriver implements Driver {
     }
     const node = _nodes.get(id);
     if (!node) {
-      throw new Error(`Node not found - "${id}"`);
+      throw new NodeNotFoundError(id);
     }
     return {
       path: Path.join(path, this.getNodePath(node)),
@@ -336,22 +1141,28 @@ export class FsDriver implements Driver {
     };
   }
 
+  /** Returns `true` if the node is the ancestor node or within it. */
+  isNodeWithin(node: Node, ancestor: Node) {
+    let it: Node | undefined = node;
+    while (it) {
+      if (it === ancestor) {
+        return true;
+      }
+      it = it.entry.pId ? this._nodes.get(it.entry.pId) : undefined;
+    }
+    return false;
+  }
+  /** Returns the children of the directory node, or the root nodes. */
+  getChildNodes(parentNode?: Node): Set<Node> {
+    return parentNode ? parentNode.children ?? new Set() : this._rootNodes;
+  }
   getNodeById(id: string): Node | undefined {
     return this._nodes.get(id);
   }
 
+  /** Returns the node at the given path, relative to the root. */
   getNodeByPath(path: string): Node | undefined {
-    const parts = path.split("/");
-    const { length } = parts;
-    const last = length - 1;
-    let found: Node | undefined = undefined;
-    this.eachNode(null, (node, { depth }) => {
-      if (node.entry.name === parts[depth] && depth === last) {
-        found = node;
-        return true;
-      }
-    });
-    return found;
+    return this._nodesByPath.get(path);
   }
 
   getNodeContent(id: string): any {
@@ -379,7 +1190,11 @@ export class FsDriver implements Driver {
     const nodePath = this.getNodePath(node, skipCached);
     return Path.join(this.path, nodePath);
   }
-
+  /**
+   * Returns the path of the node, relative to the root, from the path index.
+   * The path of a node that's not indexed, e.g. while it's added or after
+   * it's removed, is built from it's parents.
+   */
   getNodePath(node: Node, skipCached?: boolean) {
     const { _nodes, _paths } = this;
     if (!skipCached) {
@@ -393,7 +1208,6 @@ export class FsDriver implements Driver {
       entry: { name, pId: parentId },
     } = node;
     if (!parentId) {
-      _paths.set(node, name);
       return name;
     }
     parts.push(name);
@@ -407,41 +1221,70 @@ export class FsDriver implements Driver {
         pId = undefined;
       }
     }
-    const path = parts.join("/");
-    _paths.set(node, path);
-    return path;
+    return parts.join("/");
+  }
+
+  /**
+   * Moves the node into the given parent node, or to the root when no parent
+   * is given.
+   */
+  moveNode(node: Node, parentNode?: Node) {
+    const { entry } = node;
+    this.removeNodeFromParent(node);
+    if (parentNode) {
+      entry.pId = parentNode.id;
+    } else {
+      delete entry.pId;
+    }
+    this.setNodeParent(node, parentNode);
+    this.sortNodeSiblings(node);
+    this.indexNode(node);
   }
 
   removeNode(node: Node) {
-    const { _nodes, _paths } = this;
+    const { _nodes } = this;
+    this.unindexNode(node);
     this.removeNodeFromParent(node);
     const found = _nodes.delete(node.id);
-    // Delete cached path for this node and any children.
-    _paths.delete(node);
     if (isDirectoryNode(node)) {
       this.eachNode(node, (child) => {
         _nodes.delete(child.id);
-        _paths.delete(child);
       });
     }
     return found;
   }
-  /** Delete cached path for this node and any children. */
-  removeNodeCachedPaths(node: Node) {
-    const { _paths } = this;
-    _paths.delete(node);
+
+  renameNode(node: Node, name: string) {
+    this.unindexNodePath(node);
+    node.entry.name = name;
+    this.indexNodePath(node);
+    this.sortNodeSiblings(node);
+    this.indexNode(node);
+  }
+  /** Adds a node and it's children back after {@link removeNode}. */
+  restoreNode(node: Node) {
+    const { _nodes } = this;
+    _nodes.set(node.id, node);
     if (isDirectoryNode(node)) {
       this.eachNode(node, (child) => {
-        _paths.delete(child);
+        _nodes.set(child.id, child);
       });
     }
+    this.setNodeParent(node, node.entry.pId);
+    this.sortNodeSiblings(node);
+    this.indexNode(node);
   }
 
+  /**
+   * Removes the node from it's parent's children, or the root nodes, and
+   * removes the paths of the node and it's descendants from the path index.
+   */
   removeNodeFromParent(
     node: Node,
     parentNode: Node | string | undefined = node.entry.pId,
   ) {
     const { _rootNodes } = this;
+    this.unindexNodePath(node);
     if (!parentNode) {
       _rootNodes.delete(node);
     } else if (typeof parentNode === "string") {
@@ -452,6 +1295,107 @@ export class FsDriver implements Driver {
     }
   }
 
+  /**
+   * Returns `true` if the file name ends with one of the configured
+   * {@link extensions}, so that the file is loaded when opened again.
+   */
+  hasExtension(name: string) {
+    return this.extensions.some((it) =>
+      name.endsWith(it.startsWith(".") ? it : "." + it),
+    );
+  }
+
+  /**
+   * Returns `true` if the path, relative to the root, is ignored. See
+   * {@link FsDriverConfig.ignore}.
+   * @param isDir `true` if the path is a directory.
+   */
+  isIgnored(path: string, isDir: boolean) {
+    return this._ignore.ignores(path, isDir);
+  }
+
+  /** Returns `true` if the file node's content is loaded. */
+  isContentLoaded(node: Node) {
+    return !this._cache || this._cache.has(node);
+  }
+  /**
+   * Returns the content of a file node, reading it from disk first if it's
+   * not loaded.
+   * @param pin `true` to keep the content loaded until unpinned.
+   */
+  async loadContent(node: Node, pin = false): Promise<unknown> {
+    const { _cache } = this;
+    if (!_cache || isDirectoryNode(node)) {
+      return node.content;
+    }
+    if (_cache.has(node)) {
+      _cache.touch(node);
+      if (pin) _cache.pin(node);
+      return node.content;
+    }
+    const fullPath = this.getNodeFullPath(node);
+    const text = (await FSP.readFile(fullPath)).toString();
+    // The content may be unloaded right away, when larger than the cache.
+    const content = getFileFormat(fullPath).parse(text);
+    node.content = content;
+    _cache.add(node, text.length, pin);
+    this._logger.debug("Loaded file content.", {
+      path: fullPath,
+      size: text.length,
+      cached: _cache.size,
+    });
+    return content;
+  }
+  /**
+   * Keeps the changed content of a file node loaded until it's written.
+   * @param size Size of the content in bytes of JSON text.
+   */
+  pinContent(node: Node, size: number) {
+    this._cache?.add(node, size, true);
+  }
+  /**
+   * Loads and keeps the content of the file node, or files within the
+   * directory node, loaded until it's moved or renamed on disk.
+   */
+  async pinTreeContent(node: Node) {
+    if (!this._cache) {
+      return;
+    }
+    const nodes = [node];
+    if (isDirectoryNode(node)) {
+      this.eachNode(node, (it) => {
+        nodes.push(it);
+      });
+    }
+    for (const it of nodes) {
+      if (!isDirectoryNode(it)) {
+        await this.loadContent(it, true);
+      }
+    }
+  }
+  /** Lets the content of the node, or nodes within it, be unloaded. */
+  unpinContent(node: Node) {
+    const { _cache } = this;
+    if (!_cache) {
+      return;
+    }
+    _cache.unpin(node);
+    if (isDirectoryNode(node)) {
+      this.eachNode(node, (it) => {
+        _cache.unpin(it);
+      });
+    }
+  }
+  /** Sets the content of a file node and updates it's indexed values. */
+  setNodeContent(node: Node, content: unknown) {
+    node.content = content;
+    this.indexNode(node, true);
+  }
+
+  /**
+   * Adds the node to the given parent's children, or the root nodes, and
+   * adds the paths of the node and it's descendants to the path index.
+   */
   setNodeParent(node: Node, parentNode?: Node | string) {
     if (!parentNode) {
       this._rootNodes.add(node);
@@ -461,6 +1405,7 @@ export class FsDriver implements Driver {
     } else {
       parentNode.children!.add(node);
     }
+    this.indexNodePath(node);
   }
 
   sortNodeSiblings(node: Node) {
@@ -475,6 +1420,151 @@ export class FsDriver implements Driver {
   // #endregion
 }
 
+function getCtime(srcNode: GlobPath) {
+  return srcNode.ctime?.getTime() ?? 0;
+}
+/**
+ * Returns `true` if the directory node has children with the same names as
+ * the source directory at `srcPath`, and has at least one child.
+ */
+function hasSameChildNames(
+  node: Node & { children: Set<Node> },
+  srcPath: string,
+  srcByPath: Map<string, GlobPath>,
+) {
+  const names = new Set([...node.children].map((it) => it.entry.name));
+  const srcNames = new Set<string>();
+  for (const [path, srcNode] of srcByPath) {
+    if (srcNode.parent?.relativePosix() === srcPath) {
+      srcNames.add(path.substring(srcPath.length + 1));
+    }
+  }
+  return (
+    names.size > 0 &&
+    names.size === srcNames.size &&
+    [...names].every((it) => srcNames.has(it))
+  );
+}
+
+/** An applied {@link FsOperation} with the info needed to revert it. */
+type AppliedFsOperation = FsOperation & {
+  /** Path of the removed or overwritten directory or file in the trash. */
+  backup?: string;
+  /** `true` if the operation created a new directory or file. */
+  created?: boolean;
+};
+
+/** Returns the paths of an operation to log, without it's node. */
+function describeOperation(op: FsOperation) {
+  return op.type === "rename"
+    ? { type: op.type, from: op.from, to: op.to }
+    : { type: op.type, path: op.path };
+}
+
+async function applyOperation(
+  op: FsOperation,
+  trashPath: string,
+  index: number,
+): Promise<AppliedFsOperation> {
+  switch (op.type) {
+    case "mkdir": {
+      const made = await FSP.mkdir(op.path, { recursive: true });
+      return { ...op, created: !!made };
+    }
+    case "remove": {
+      const backup = Path.join(trashPath, `${index}`);
+      await FSP.mkdir(trashPath, { recursive: true });
+      await FSP.rename(op.path, backup);
+      return { ...op, backup };
+    }
+    case "rename":
+      await FSP.rename(op.from, op.to);
+      return op;
+    case "write": {
+      let backup: string | undefined;
+      let { data } = op;
+      if (FS.existsSync(op.path)) {
+        backup = Path.join(trashPath, `${index}`);
+        await FSP.mkdir(trashPath, { recursive: true });
+        await FSP.copyFile(op.path, backup);
+        data = await updateFileText(op.path, op.content, data);
+      }
+      await writeFileAtomic(op.path, data);
+      return { ...op, backup, created: !backup };
+    }
+  }
+}
+
+/**
+ * Returns the text of an existing file updated to the given content, keeping
+ * it's comments and formatting if the file format supports it. Otherwise,
+ * returns the given text of the content, e.g. when the file can't be parsed.
+ */
+async function updateFileText(path: string, content: unknown, data: string) {
+  const { update } = getFileFormat(path);
+  if (!update) {
+    return data;
+  }
+  try {
+    return update((await FSP.readFile(path)).toString(), content);
+  } catch {
+    return data;
+  }
+}
+
+/**
+ * Writes a file through a temporary file in the same directory, which is
+ * flushed to disk and renamed over the target, so that a crash never leaves
+ * the target partially written.
+ */
+async function writeFileAtomic(path: string, data: string) {
+  const dir = Path.dirname(path);
+  const tempPath = Path.join(
+    dir,
+    `.${Path.basename(path)}.${createShortId()}${TEMP_FILE_EXT}`,
+  );
+  try {
+    const file = await FSP.open(tempPath, "w");
+    try {
+      await file.writeFile(data);
+      await file.sync();
+    } finally {
+      await file.close();
+    }
+    await FSP.rename(tempPath, path);
+  } catch (ex) {
+    await FSP.rm(tempPath, { force: true });
+    throw ex;
+  }
+  // Flush the rename, where supported.
+  await FSP.open(dir, "r")
+    .then((dirFile) => dirFile.sync().finally(() => dirFile.close()))
+    .catch(() => undefined);
+}
+
+async function revertOperation(op: AppliedFsOperation) {
+  switch (op.type) {
+    case "mkdir":
+      if (op.created) {
+        await FSP.rm(op.path, { recursive: true });
+      }
+      break;
+    case "remove":
+      await FSP.rename(op.backup!, op.path);
+      break;
+    case "rename":
+      await FSP.rename(op.to, op.from);
+      break;
+    case "write":
+      if (op.backup) {
+        await FSP.copyFile(op.backup, op.path);
+      } else if (op.created) {
+        await FSP.rm(op.path);
+      }
+      break;
+  }
+}
+
 /** Returns a glob pattern to match all directories + files with extensions. */
 function matchAllDirsAndFileExt(fileExtensions: string[]) {
   /** e.g. `.json|.jsonc` */
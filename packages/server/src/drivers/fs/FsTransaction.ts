@@ -1,51 +1,323 @@
 import Path from "node:path";
-// import FS from "node:fs";
-import FSP from "node:fs/promises";
+import {
+  TreeInterpreter,
+  compile as compileJmesPath,
+} from "@metrichor/jmespath";
+import { minimatch } from "minimatch";
 // Local
 import {
+  InvalidContentError,
+  InvalidMoveError,
+  InvalidNameError,
+  InvalidQueryError,
+  NameConflictError,
+  NodeNotFoundError,
+  NotADirectoryError,
+  NotAFileError,
+  PathIgnoredError,
+  TransactionCompletedError,
+  ValidationError,
+} from "@/errors";
+import { assertValidName, numberName, sameName } from "@/names";
+import { applyPatch } from "@/patches";
+import { TransactionModel } from "@/TransactionModel";
+import {
+  ChangeEvent,
+  JSONPatchDocument,
   MapNodeInfoDefault,
   MapNodeInfoFn,
+  Model,
+  NameConflictOptions,
+  NodeChange,
   NodeInfo,
   NodeVisitorFn,
+  PatchResult,
+  QueryResult,
   Transaction,
 } from "@/types";
 import type { FsDriver } from "./FsDriver";
-import { isDirectoryNode } from "./types";
+import { getFileFormat } from "./formats";
+import { FsOperation, Node, isDirectoryNode, isFileNode } from "./types";
+
+/**
+ * A transaction which makes changes to the {@link FsDriver} nodes right away
+ * and stages the file system operations until {@link commit}.
+ */
+export default class FsTransaction<DB = any> implements Transaction<DB> {
+  driver: FsDriver<DB>;
+  /** Changes to notify subscribers of after {@link commit}. */
+  private _changes: ChangeEvent[] = [];
+  /** File system operations staged until {@link commit}. */
+  private _operations: FsOperation[] = [];
+  /** Functions to revert in-memory node changes, in the order they were made. */
+  private _reverts: Array<() => void> = [];
+  /** `true` after {@link commit} or {@link rollback}. */
+  private _completed = false;
+  /** `true` while applying an {@link undo} or {@link redo}. */
+  private _replaying = false;
 
-export default class FsTransaction implements Transaction {
-  driver: FsDriver;
-  constructor(driver: FsDriver) {
+  constructor(driver: FsDriver<DB>) {
     this.driver = driver;
   }
   // #region Transaction Control
-  commit() {
-    throw new Error("Not implemented");
+  /** `true` after the transaction was committed or rolled back. */
+  get completed() {
+    return this._completed;
+  }
+  /**
+   * Applies all staged file system operations. If any operation fails, the
+   * applied operations and all node changes are reverted and the error is
+   * thrown.
+   */
+  async commit() {
+    this.assertActive();
+    this._completed = true;
+    const { _changes: changes, _operations: operations } = this;
+    this._changes = [];
+    this._operations = [];
+    try {
+      await this.driver.applyOperations(operations);
+    } catch (ex) {
+      this.revertNodes();
+      throw ex;
+    }
+    this._reverts = [];
+    this.driver.notify(changes);
+  }
+  /** Discards all staged file system operations and reverts node changes. */
+  async rollback() {
+    this.assertActive();
+    this._completed = true;
+    this._changes = [];
+    this._operations = [];
+    this.revertNodes();
+  }
+
+  private assertActive() {
+    if (this._completed) {
+      throw new TransactionCompletedError();
+    }
+  }
+  /** Stages a file system operation and how to revert it's node changes. */
+  private stage(op: FsOperation, revert: () => void) {
+    this._operations.push(op);
+    this._reverts.push(revert);
+  }
+
+  /** Gets a file node by id or throws an error if not found. */
+  private getFileNode(id: string) {
+    const node = this.driver.getNodeById(id);
+    if (!node) throw new NodeNotFoundError(id);
+    if (!isFileNode(node)) throw new NotAFileError(id);
+    return node;
+  }
+
+  /**
+   * Gets a directory node and it's full path by id, or the root path when no
+   * id is given. Throws a {@link NotADirectoryError} if the id is a file.
+   */
+  private getParent(pId: string | undefined) {
+    const parent = this.driver.getFullPathMaybeNode(pId);
+    if (parent.node && !isDirectoryNode(parent.node)) {
+      throw new NotADirectoryError(parent.node.id);
+    }
+    return parent;
+  }
+
+  /** Records a change in the node history unless undoing or redoing. */
+  private recordChange(node: Node, change: NodeChange) {
+    if (this._replaying) {
+      return;
+    }
+    const { driver } = this;
+    this._reverts.push(driver.saveNodeHistory(node));
+    driver.recordNodeChange(node, change);
+  }
+
+  private writeNode(node: Node, data: unknown, change: NodeChange) {
+    const { driver } = this;
+    const path = driver.getNodePath(node);
+    this.assertContent(path, data);
+    this.validate(node.id, path, data);
+    const fullPath = driver.getNodeFullPath(node);
+    // Update our node
+    const { content, entry } = node;
+    const { ctime } = entry;
+    entry.ctime = Date.now();
+    driver.setNodeContent(node, data);
+    // Write file
+    const text = getFileFormat(fullPath).stringify(data);
+    driver.pinContent(node, text.length);
+    this.stage(
+      { type: "write", path: fullPath, data: text, content: data, node },
+      () => {
+        entry.ctime = ctime;
+        driver.setNodeContent(node, content);
+        driver.unpinContent(node);
+      },
+    );
+    this.recordChange(node, change);
+    if (change.type === "content") {
+      const { patch, inverse } = change;
+      this._changes.push({
+        type: "changed",
+        node: this.driver.getNodeInfo(node),
+        external: false,
+        patch,
+        inverse,
+      });
+    }
+  }
+
+  /**
+   * Returns the name and path, relative to the root, to give a node in the
+   * parent directory. Throws an {@link InvalidNameError} if the name isn't
+   * allowed or a file name doesn't have one of the configured extensions, or
+   * a {@link PathIgnoredError} if the path is ignored, since the node wouldn't
+   * be loaded when the database is opened again. A sibling with
+   * the same name, ignoring case, is resolved by the `onConflict` mode.
+   * @param node The node being moved or renamed, if any.
+   */
+  private async resolveName(
+    name: string,
+    parentNode: Node | undefined,
+    isDir: boolean,
+    { onConflict = "error" }: NameConflictOptions = {},
+    node?: Node,
+  ) {
+    assertValidName(name);
+    const { driver } = this;
+    if (!isDir && !driver.hasExtension(name)) {
+      throw new InvalidNameError({
+        nodeName: name,
+        reason: `doesn't end with ${driver.extensions.join(", ")}`,
+      });
+    }
+    const siblings = [...driver.getChildNodes(parentNode)].filter(
+      (it) => it !== node,
+    );
+    const taken = (name: string) =>
+      siblings.some((it) => sameName(it.entry.name, name));
+    const parentPath = parentNode ? driver.getNodePath(parentNode) + "/" : "";
+    const existing = siblings.find((it) => sameName(it.entry.name, name));
+    if (existing) {
+      // A sibling containing the node, e.g. when moving it up, can't be
+      // removed to overwrite it.
+      const containsNode =
+        node &&
+        driver
+          .getNodePath(node)
+          .startsWith(`${parentPath}${existing.entry.name}/`);
+      if (onConflict === "rename") {
+        name = numberName(name, isDir, taken);
+      } else if (onConflict === "overwrite" && !containsNode) {
+        await this.remove(existing.id);
+      } else {
+        throw new NameConflictError({
+          path: parentPath + name,
+          existingId: existing.id,
+        });
+      }
+    }
+    const path = parentPath + name;
+    if (driver.isIgnored(path, isDir)) {
+      throw new PathIgnoredError(path);
+    }
+    return { name, path };
   }
 
-  rollback() {
-    throw new Error("Not implemented");
+  /**
+   * Throws a {@link ValidationError} if the content doesn't validate against
+   * the schemas matching the given path, relative to the root, or throws a
+   * {@link UniqueIndexError} if it duplicates a value in a unique index.
+   */
+  private validate(id: string | undefined, path: string, content: unknown) {
+    const { driver } = this;
+    const issues = driver.validateContent(path, content);
+    if (issues.length > 0) {
+      throw new ValidationError(issues);
+    }
+    driver.checkUniqueIndexes(id, path, content);
+  }
+  /**
+   * Throws an {@link InvalidContentError} if the content isn't a JSON value,
+   * e.g. `undefined`, to write to the file at the path, relative to the root.
+   */
+  private assertContent(path: string, content: unknown) {
+    if (
+      content === undefined ||
+      typeof content === "function" ||
+      typeof content === "symbol"
+    ) {
+      throw new InvalidContentError(path);
+    }
+  }
+  /**
+   * Validates the node's file content, or it's descendant files content, as
+   * if the node was moved to the given path. The content is kept loaded until
+   * the node is moved on disk, since it can't be loaded from the new path.
+   */
+  private async validatePathChange(node: Node, newPath: string) {
+    const { driver } = this;
+    await driver.pinTreeContent(node);
+    try {
+      if (!isDirectoryNode(node)) {
+        this.validate(node.id, newPath, node.content);
+        return;
+      }
+      const oldPath = driver.getNodePath(node);
+      driver.eachNode(node, (child) => {
+        if (!isDirectoryNode(child)) {
+          const childPath = driver.getNodePath(child);
+          const path = newPath + childPath.substring(oldPath.length);
+          this.validate(child.id, path, child.content);
+        }
+      });
+    } catch (ex) {
+      driver.unpinContent(node);
+      throw ex;
+    }
+  }
+
+  private revertNodes() {
+    const { _reverts: reverts } = this;
+    this._reverts = [];
+    for (let i = reverts.length - 1; i >= 0; i--) {
+      reverts[i]!();
+    }
   }
   // #endregion
 
   // #region File System Node Queries
   /** Adds a directory to the given parent node id and returns a new node id. */
-  async addDirectory(name: string, pId?: string | null): Promise<string> {
-    name = name.trim();
+  async addDirectory(
+    name: string,
+    pId?: string | null,
+    options?: NameConflictOptions,
+  ): Promise<string> {
+    this.assertActive();
     pId = pId ?? undefined;
     const { driver } = this;
-    const { node: parentNode, path: parentPath } =
-      driver.getFullPathMaybeNode(pId);
-    // Make directory
-    const newPath = Path.join(parentPath, name);
-    await FSP.mkdir(newPath, { recursive: true });
+    const { node: parentNode, path: parentPath } = this.getParent(pId);
+    ({ name } = await this.resolveName(name.trim(), parentNode, true, options));
     // Create node
     const node = driver.createNode(name, {
       isDir: true,
       pId,
-      stats: await FSP.stat(newPath),
+      stats: { ctime: Date.now() },
     });
     driver.setNodeParent(node, parentNode);
     driver.sortNodeSiblings(node);
+    // Make directory
+    const newPath = Path.join(parentPath, name);
+    this.stage({ type: "mkdir", path: newPath, node }, () =>
+      driver.removeNode(node),
+    );
+    this._changes.push({
+      type: "added",
+      node: this.driver.getNodeInfo(node),
+      external: false,
+    });
     return node.id;
   }
   /** Adds a file to the given parent node id and returns a new node id. */
@@ -54,28 +326,50 @@ export default class FsTransaction implements Transaction {
     {
       data,
       pId,
+      ...options
     }: {
       data: unknown;
       pId?: string | null;
-    },
+    } & NameConflictOptions,
   ) {
-    name = name.trim();
+    this.assertActive();
     pId = pId ?? undefined;
     const { driver } = this;
-    const { node: parentNode, path: parentPath } =
-      driver.getFullPathMaybeNode(pId);
-    // Write file
-    const newPath = Path.join(parentPath, name);
-    const json = JSON.stringify(data, undefined, 2);
-    await FSP.writeFile(newPath, json);
+    const { node: parentNode, path: parentPath } = this.getParent(pId);
+    const resolved = await this.resolveName(
+      name.trim(),
+      parentNode,
+      false,
+      options,
+    );
+    name = resolved.name;
+    this.assertContent(resolved.path, data);
+    this.validate(undefined, resolved.path, data);
     // Create node
     const node = driver.createNode(name, {
       isDir: false,
       pId,
-      stats: await FSP.stat(newPath),
+      stats: { ctime: Date.now() },
     });
     driver.setNodeParent(node, parentNode);
     driver.sortNodeSiblings(node);
+    driver.setNodeContent(node, data);
+    // Write file
+    const newPath = Path.join(parentPath, name);
+    const text = getFileFormat(newPath).stringify(data);
+    driver.pinContent(node, text.length);
+    this.stage(
+      { type: "write", path: newPath, data: text, content: data, node },
+      () => {
+        driver.unpinContent(node);
+        driver.removeNode(node);
+      },
+    );
+    this._changes.push({
+      type: "added",
+      node: this.driver.getNodeInfo(node),
+      external: false,
+    });
     return node.id;
   }
   /**
@@ -102,21 +396,9 @@ export default class FsTransaction implements Transaction {
     const mapNode = mapNodeAs
       ? mapNodeAs
       : (MapNodeInfoDefault as MapNodeInfoFn<T>);
-    driver.eachNode<T>(within, visitor, (node) => {
-      const {
-        id,
-        entry: { ctime, name, pId },
-      } = node;
-      const nodeInfo = {
-        ctime,
-        id,
-        name,
-        pId,
-        isDir: isDirectoryNode(node),
-        path: driver.getNodePath(node),
-      };
-      return mapNode(nodeInfo);
-    });
+    driver.eachNode<T>(within, visitor, (node) =>
+      mapNode(this.driver.getNodeInfo(node)),
+    );
   }
   eachRootNode<T = NodeInfo>(
     visitor: NodeVisitorFn<T>,
@@ -136,6 +418,14 @@ export default class FsTransaction implements Transaction {
     });
     return results;
   }
+  /** Returns the content of the given file id. */
+  async get<T = any>(id: string): Promise<T | undefined> {
+    const node = this.driver.getNodeById(id);
+    if (!node || !isFileNode(node)) {
+      return undefined;
+    }
+    return (await this.driver.loadContent(node)) as T;
+  }
   /**
    * Returns the id used to refer to the given path. The path be relative to
    * the database root, e.g. `"my/folder/file.json"` or `"my/folder"`.
@@ -146,29 +436,88 @@ export default class FsTransaction implements Transaction {
     const node = this.driver.getNodeByPath(path);
     return node ? node.id : undefined;
   }
+  /** Returns typed access to the files of the named schema. */
+  model<N extends keyof DB & string>(name: N): Model<DB[N]> {
+    return new TransactionModel<DB[N]>(this, this.driver.schemas, name);
+  }
+  /** Returns the ids of the files indexed with the given value. */
+  lookup(index: string, value: string | number | boolean): string[] {
+    return this.driver.lookup(index, value);
+  }
   /**
    * Moves a directory or file id into a new parent directory or the root (when
    * `toId` is missing) and returns the new path.
    */
-  async move(id: string, toId: string | null): Promise<string> {
+  async move(
+    id: string,
+    toId: string | null,
+    options?: NameConflictOptions,
+  ): Promise<string> {
+    this.assertActive();
     const { driver } = this;
     const node = driver.getNodeById(id);
-    if (!node) throw new Error(`Node not found - "${id}"`);
-    const { node: newParent, path: newParentPath } =
-      driver.getFullPathMaybeNode(toId ?? undefined);
-    // Rename
+    if (!node) throw new NodeNotFoundError(id);
+    const { node: newParent, path: newParentPath } = this.getParent(
+      toId ?? undefined,
+    );
+    if (newParent && driver.isNodeWithin(newParent, node)) {
+      throw new InvalidMoveError({ id, toId: newParent.id });
+    }
+    const { name, path } = await this.resolveName(
+      node.entry.name,
+      newParent,
+      isDirectoryNode(node),
+      options,
+      node,
+    );
     const fullPath = driver.getNodeFullPath(node);
-    const newPath = Path.join(newParentPath, node.entry.name);
-    await FSP.rename(fullPath, newPath);
-    // Update our node
+    const newPath = Path.join(newParentPath, name);
+    await this.validatePathChange(node, path);
     const { entry } = node;
-    entry.ctime = (await FSP.stat(newPath)).ctime.getTime();
-    driver.removeNodeCachedPaths(node);
-    driver.removeNodeFromParent(node);
-    driver.setNodeParent(node, newParent);
-    driver.sortNodeSiblings(node);
+    const { ctime, name: oldName, pId } = entry;
+    const oldParent = pId ? driver.getNodeById(pId) : undefined;
+    const from = driver.getNodePath(node);
+    // Rename, staged first to restore the node if updating it fails.
+    this.stage({ type: "rename", from: fullPath, to: newPath, node }, () => {
+      entry.ctime = ctime;
+      if (name !== oldName) driver.renameNode(node, oldName);
+      driver.moveNode(node, oldParent);
+      driver.unpinContent(node);
+    });
+    // Update our node
+    entry.ctime = Date.now();
+    driver.moveNode(node, newParent);
+    if (name !== oldName) {
+      // Numbered to resolve a conflict. Recorded first, to be undone last.
+      driver.renameNode(node, name);
+      this.recordChange(node, { type: "rename", from: oldName, to: name });
+    }
+    this.recordChange(node, { type: "move", from: pId, to: newParent?.id });
+    this._changes.push({
+      type: "moved",
+      node: this.driver.getNodeInfo(node),
+      external: false,
+      from,
+    });
     return driver.getNodePath(node);
   }
+  /**
+   * Applies JSON Patch operations to the content of the given file id and
+   * returns the applied and inverse operations. Throws an
+   * {@link InvalidPatchError} if an operation can't be applied.
+   */
+  async patch(id: string, operations: JSONPatchDocument): Promise<PatchResult> {
+    this.assertActive();
+    const node = this.getFileNode(id);
+    const content = await this.driver.loadContent(node);
+    const { patched, inverse } = applyPatch(content, operations);
+    this.writeNode(node, patched, {
+      type: "content",
+      patch: operations,
+      inverse,
+    });
+    return { patch: operations, inverse };
+  }
   /** Returns the path for the given node id. */
   path(id: string): string | undefined {
     const { driver } = this;
@@ -178,37 +527,200 @@ export default class FsTransaction implements Transaction {
     }
     return driver.getNodePath(node);
   }
+  /**
+   * Re-applies the last undone change of the given node id, or of the node
+   * most recently undone when no id is given. Returns `true` if redone.
+   */
+  async redo(id?: string): Promise<boolean> {
+    this.assertActive();
+    const { driver } = this;
+    const node = id ? driver.getNodeById(id) : driver.getLastUndoneNode();
+    const change = node?.futures?.at(-1);
+    if (!node || !change) {
+      return false;
+    }
+    this._reverts.push(driver.saveNodeHistory(node));
+    driver.shiftNodeChange(node, "redo");
+    await this.replay(node, change, false);
+    return true;
+  }
+  /**
+   * Runs a JMESPath expression against the content of each file matching the
+   * given path glob pattern(s). Throws an {@link InvalidQueryError} if the
+   * expression can't be compiled, or fails on the content of a file.
+   */
+  async query<T = unknown>(
+    files: string | string[],
+    expression: string,
+  ): Promise<QueryResult<T>[]> {
+    const { driver } = this;
+    const patterns = Array.isArray(files) ? files : [files];
+    const ast = queryOrThrow(expression, () => compileJmesPath(expression));
+    const results: QueryResult<T>[] = [];
+    const matches: Node[] = [];
+    driver.eachNode(null, (node) => {
+      if (isDirectoryNode(node)) {
+        return;
+      }
+      const path = driver.getNodePath(node);
+      if (patterns.some((pattern) => minimatch(path, pattern))) {
+        matches.push(node);
+      }
+    });
+    for (const node of matches) {
+      const content = await driver.loadContent(node);
+      const result = queryOrThrow(expression, () =>
+        TreeInterpreter.search(ast, content as any),
+      );
+      if (result === null || (Array.isArray(result) && result.length < 1)) {
+        continue;
+      }
+      results.push({
+        node: this.driver.getNodeInfo(node),
+        result: result as T,
+      });
+    }
+    return results;
+  }
+  /** Returns the content of the file at the given path. */
+  async read<T = any>(path: string): Promise<T | undefined> {
+    const id = this.id(path);
+    return id ? this.get<T>(id) : undefined;
+  }
   /** Removes a directory or file by id returning `true` if successful. */
   async remove(id: string): Promise<boolean> {
+    this.assertActive();
     const { driver } = this;
     const node = driver.getNodeById(id);
     if (!node) {
       return false;
     }
-    // Remove
     const fullPath = driver.getNodeFullPath(node);
-    // console.log("REMOVING", fullPath);
-    await FSP.rm(fullPath, { recursive: true });
+    const info = this.driver.getNodeInfo(node);
     // Update our nodes
-    return driver.removeNode(node);
+    const removed = driver.removeNode(node);
+    this._changes.push({ type: "removed", node: info, external: false });
+    // Remove
+    this.stage({ type: "remove", path: fullPath }, () =>
+      driver.restoreNode(node),
+    );
+    return removed;
   }
   /** Renames a directory or file by id and returns the new path. */
-  async rename(id: string, name: string): Promise<string> {
-    // TODO: Validate that name doesn't contain slashes.
+  async rename(
+    id: string,
+    name: string,
+    options?: NameConflictOptions,
+  ): Promise<string> {
+    this.assertActive();
     const { driver } = this;
     const node = driver.getNodeById(id);
-    if (!node) throw new Error(`Node not found - "${id}"`);
-    // Rename
+    if (!node) throw new NodeNotFoundError(id);
+    const { pId } = node.entry;
+    const resolved = await this.resolveName(
+      name.trim(),
+      pId ? driver.getNodeById(pId) : undefined,
+      isDirectoryNode(node),
+      options,
+      node,
+    );
+    name = resolved.name;
     const fullPath = driver.getNodeFullPath(node);
     const newPath = Path.join(fullPath, `../${name}`);
-    await FSP.rename(fullPath, newPath);
+    await this.validatePathChange(node, resolved.path);
     // Update our node
     const { entry } = node;
-    entry.name = name;
-    entry.ctime = (await FSP.stat(newPath)).ctime.getTime();
-    driver.removeNodeCachedPaths(node);
-    driver.sortNodeSiblings(node);
+    const { ctime, name: oldName } = entry;
+    const from = driver.getNodePath(node);
+    entry.ctime = Date.now();
+    driver.renameNode(node, name);
+    this.recordChange(node, { type: "rename", from: oldName, to: name });
+    this._changes.push({
+      type: "renamed",
+      node: this.driver.getNodeInfo(node),
+      external: false,
+      from,
+    });
+    // Rename
+    this.stage({ type: "rename", from: fullPath, to: newPath, node }, () => {
+      entry.ctime = ctime;
+      driver.renameNode(node, oldName);
+      driver.unpinContent(node);
+    });
     return driver.getNodePath(node);
   }
+  /**
+   * Reverts the last change of the given node id, or of the node most
+   * recently changed when no id is given. Returns `true` if undone.
+   */
+  async undo(id?: string): Promise<boolean> {
+    this.assertActive();
+    const { driver } = this;
+    const node = id ? driver.getNodeById(id) : driver.getLastChangedNode();
+    const change = node?.history?.at(-1);
+    if (!node || !change) {
+      return false;
+    }
+    this._reverts.push(driver.saveNodeHistory(node));
+    driver.shiftNodeChange(node, "undo");
+    await this.replay(node, change, true);
+    return true;
+  }
+  /** Updates the content of the given file id and returns the new content. */
+  async update<T = any>(id: string, fn: (data: T) => T | void): Promise<T> {
+    this.assertActive();
+    const node = this.getFileNode(id);
+    const data = structuredClone(await this.driver.loadContent(node)) as T;
+    const updated = fn(data) ?? data;
+    await this.write(id, updated);
+    return updated;
+  }
+  /** Writes the content of the given file id. */
+  async write(id: string, data: unknown): Promise<void> {
+    this.assertActive();
+    const node = this.getFileNode(id);
+    await this.driver.loadContent(node);
+    this.writeNode(node, data, {
+      type: "content",
+      patch: [{ op: "replace", path: "", value: data }],
+      inverse: [{ op: "replace", path: "", value: node.content }],
+    });
+  }
+  // #endregion
+
+  // #region History
+  /** Applies a change from the node history, or it's inverse. */
+  private async replay(node: Node, change: NodeChange, inverse: boolean) {
+    const { id } = node;
+    this._replaying = true;
+    try {
+      switch (change.type) {
+        case "content":
+          await this.patch(id, inverse ? change.inverse : change.patch);
+          break;
+        case "move":
+          await this.move(id, (inverse ? change.from : change.to) ?? null);
+          break;
+        case "rename":
+          await this.rename(id, inverse ? change.from : change.to);
+          break;
+      }
+    } finally {
+      this._replaying = false;
+    }
+  }
+
   // #endregion
 }
+
+/** Runs a JMESPath function, throwing it's errors as an InvalidQueryError. */
+function queryOrThrow<T>(expression: string, fn: () => T): T {
+  try {
+    return fn();
+  } catch (ex) {
+    throw new InvalidQueryError({
+      expression,
+      reason: ex instanceof Error ? ex.message : String(ex),
+    });
+  }
+}
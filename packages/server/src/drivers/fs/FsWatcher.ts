@@ -0,0 +1,124 @@
+import Path from "node:path";
+import FS from "node:fs";
+// Local
+import { IGNORE_FILE } from "./IgnoreRules";
+
+export interface FsWatcherOptions {
+  /** Milliseconds to wait for more changes before calling `onChange`. */
+  debounce: number;
+  /**
+   * Returns the full paths of all directories to watch, used only where
+   * recursive watching isn't supported, e.g. Linux before Node.js 20.
+   */
+  directories: () => string[];
+  /**
+   * Returns `true` to ignore changes to the given path, relative to the
+   * watched path.
+   */
+  ignored?: (path: string) => boolean;
+  /** Called after changes stop for the {@link debounce} duration. */
+  onChange: () => void;
+}
+
+/** Names of the dot-files which change what's ignored. */
+const IGNORE_FILE_NAMES = [IGNORE_FILE, ".gitignore"];
+
+/**
+ * Watches a directory tree for changes and calls `onChange` once they stop.
+ * Changes to paths with a dot-file segment, e.g. `".git/"`, are ignored,
+ * except to ignore files, e.g. `".jdexignore"`.
+ */
+export class FsWatcher {
+  /** Object name for the default `toString` implementation. */
+  public readonly [Symbol.toStringTag]: string = "FsWatcher";
+  /** The root path being watched. */
+  public readonly path: string;
+
+  private _options: FsWatcherOptions;
+  private _timer: ReturnType<typeof setTimeout> | undefined;
+  /** Watchers by full directory path, or a single watcher at `path`. */
+  private _watchers = new Map<string, FS.FSWatcher>();
+  /** `true` if watching recursively with a single watcher. */
+  private _recursive = false;
+
+  constructor(path: string, options: FsWatcherOptions) {
+    this[Symbol.toStringTag] = `FsWatcher("${path}")`;
+    this.path = path;
+    this._options = options;
+  }
+
+  close() {
+    clearTimeout(this._timer);
+    this._timer = undefined;
+    for (const watcher of this._watchers.values()) {
+      watcher.close();
+    }
+    this._watchers.clear();
+  }
+
+  start() {
+    const { path } = this;
+    try {
+      this._watchers.set(path, this.watch(path, true));
+      this._recursive = true;
+    } catch (ex: any) {
+      if (ex?.code !== "ERR_FEATURE_UNAVAILABLE_ON_PLATFORM") {
+        throw ex;
+      }
+      this.update();
+    }
+  }
+  /**
+   * Updates the watched directories after changes, when not watching
+   * recursively.
+   */
+  update() {
+    const { _recursive, _watchers, path } = this;
+    if (_recursive) {
+      return;
+    }
+    const directories = new Set([path, ...this._options.directories()]);
+    for (const [dir, watcher] of _watchers) {
+      if (!directories.has(dir)) {
+        watcher.close();
+        _watchers.delete(dir);
+      }
+    }
+    for (const dir of directories) {
+      if (!_watchers.has(dir)) {
+        _watchers.set(dir, this.watch(dir, false));
+      }
+    }
+  }
+
+  private onEvent(filename: string | null) {
+    if (filename) {
+      const names = filename.split(Path.sep);
+      const name = names.pop()!;
+      if (
+        names.some((it) => it.startsWith(".")) ||
+        (name.startsWith(".") && !IGNORE_FILE_NAMES.includes(name)) ||
+        this._options.ignored?.(names.concat(name).join("/"))
+      ) {
+        return;
+      }
+    }
+    clearTimeout(this._timer);
+    this._timer = setTimeout(() => {
+      this._timer = undefined;
+      this._options.onChange();
+    }, this._options.debounce);
+  }
+
+  private watch(dir: string, recursive: boolean) {
+    const watcher = FS.watch(dir, { recursive }, (_event, filename) =>
+      this.onEvent(filename),
+    );
+    // Directories being watched may be removed before we update...
+    watcher.on("error", () => {
+      watcher.close();
+      this._watchers.delete(dir);
+    });
+    return watcher;
+  }
+}
@@ -0,0 +1,176 @@
+import Path from "node:path";
+import FS from "node:fs";
+import ignore, { type Ignore } from "ignore";
+
+/** Name of the files with patterns of paths to ignore in their directory. */
+export const IGNORE_FILE = ".jdexignore";
+
+/** Rules from one source, e.g. the config or an ignore file. */
+interface IgnoreLevel {
+  /** Path of the rules directory, relative to the root, e.g. `"my/dir/"`. */
+  base: string;
+  /** Path of the root, relative to the rules directory, e.g. `"data/"`. */
+  prefix: string;
+  rules: Ignore;
+}
+
+/**
+ * Matches paths within the database root to ignore, in `.gitignore` format,
+ * by the configured patterns and the `.jdexignore` files in each directory.
+ * Optionally, also by the `.gitignore` files of the repository containing the
+ * root. As with git, the rules of deeper directories take precedence and the
+ * paths within an ignored directory can't be included again.
+ */
+export class IgnoreRules {
+  /** Object name for the default `toString` implementation. */
+  public readonly [Symbol.toStringTag]: string = "IgnoreRules";
+  /** The root path of the database. */
+  public readonly path: string;
+
+  private _gitignore: boolean;
+  /** Rules of each directory by path relative to the root, if any. */
+  private _levels = new Map<string, IgnoreLevel[]>();
+  /** Rules which apply to all paths, from the config and outer directories. */
+  private _outer: IgnoreLevel[] | undefined;
+  private _patterns: string[];
+
+  constructor(
+    path: string,
+    {
+      gitignore = false,
+      patterns,
+    }: { gitignore?: boolean; patterns: string[] },
+  ) {
+    this.path = path;
+    this._gitignore = gitignore;
+    this._patterns = patterns;
+  }
+
+  /** Forgets the rules read from files, to read them again when changed. */
+  clear() {
+    this._levels.clear();
+    this._outer = undefined;
+  }
+
+  /**
+   * Returns `true` if the path, relative to the root, or one of it's parent
+   * directories is ignored.
+   * @param isDir `true` if the path is a directory.
+   */
+  ignores(path: string, isDir: boolean) {
+    if (!path) {
+      // The root itself.
+      return false;
+    }
+    const names = path.split("/");
+    for (let i = 1; i <= names.length; i++) {
+      const subPath = names.slice(0, i).join("/");
+      if (this.matches(subPath, i < names.length || isDir)) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /** Returns `true` if the path itself is matched by it's applicable rules. */
+  private matches(path: string, isDir: boolean) {
+    const dir = Path.posix.dirname(path);
+    let ignored = false;
+    for (const { base, prefix, rules } of this.chain(dir === "." ? "" : dir)) {
+      const relative = prefix + path.substring(base.length);
+      const result = rules.test(isDir ? relative + "/" : relative);
+      if (result.ignored) {
+        ignored = true;
+      } else if (result.unignored) {
+        ignored = false;
+      }
+    }
+    return ignored;
+  }
+
+  /** Returns the rules which apply within a directory, outer-most first. */
+  private chain(dir: string) {
+    const chain = [...this.outer()];
+    const names = dir ? dir.split("/") : [];
+    for (let i = 0; i <= names.length; i++) {
+      chain.push(...this.levels(names.slice(0, i).join("/")));
+    }
+    return chain;
+  }
+
+  /** Returns the rules of the ignore files in a directory. */
+  private levels(dir: string) {
+    let levels = this._levels.get(dir);
+    if (!levels) {
+      levels = [];
+      const fileNames = this._gitignore
+        ? [".gitignore", IGNORE_FILE]
+        : [IGNORE_FILE];
+      for (const fileName of fileNames) {
+        const patterns = readPatterns(Path.join(this.path, dir, fileName));
+        if (patterns) {
+          levels.push({
+            base: dir ? dir + "/" : "",
+            prefix: "",
+            rules: ignore().add(patterns),
+          });
+        }
+      }
+      this._levels.set(dir, levels);
+    }
+    return levels;
+  }
+
+  /**
+   * Returns the rules of the `.gitignore` files outside of the root, from
+   * the repository root down, followed by the configured patterns.
+   */
+  private outer() {
+    if (this._outer) {
+      return this._outer;
+    }
+    const outer: IgnoreLevel[] = [];
+    if (this._gitignore) {
+      let dir = Path.dirname(this.path);
+      let prefix = Path.basename(this.path) + "/";
+      while (!FS.existsSync(Path.join(dir, ".git"))) {
+        const parent = Path.dirname(dir);
+        if (parent === dir) {
+          // Not within a repository.
+          prefix = "";
+          break;
+        }
+        outer.unshift(...gitignoreLevels(dir, prefix));
+        prefix = `${Path.basename(dir)}/${prefix}`;
+        dir = parent;
+      }
+      if (prefix) {
+        outer.unshift(...gitignoreLevels(dir, prefix));
+        const exclude = readPatterns(Path.join(dir, ".git/info/exclude"));
+        if (exclude) {
+          outer.unshift({ base: "", prefix, rules: ignore().add(exclude) });
+        }
+      } else {
+        outer.length = 0;
+      }
+    }
+    outer.push({ base: "", prefix: "", rules: ignore().add(this._patterns) });
+    this._outer = outer;
+    return outer;
+  }
+}
+
+/** Returns the rules of the `.gitignore` file in a directory, if any. */
+function gitignoreLevels(dir: string, prefix: string): IgnoreLevel[] {
+  const patterns = readPatterns(Path.join(dir, ".gitignore"));
+  return patterns ? [{ base: "", prefix, rules: ignore().add(patterns) }] : [];
+}
+
+/** Reads the patterns of an ignore file, or `undefined` if there's none. */
+function readPatterns(path: string) {
+  try {
+    return FS.readFileSync(path, "utf-8");
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,148 @@
+import Path from "node:path";
+import isDeepEqual from "fast-deep-equal";
+import JSON5 from "json5";
+import {
+  applyEdits,
+  modify,
+  parse as parseJsonc,
+  printParseErrorCode,
+  type FormattingOptions,
+  type JSONPath,
+  type ParseError,
+} from "jsonc-parser";
+
+/** Parses and writes the text of the files with a given extension. */
+export interface FileFormat {
+  /** Parses the file text, throwing an error if it's not valid. */
+  parse(text: string): unknown;
+  /** Returns the file text of new content. */
+  stringify(data: unknown): string;
+  /**
+   * Returns the existing file text updated to the given content, keeping
+   * it's comments and formatting where possible. Without it, files are
+   * rewritten with {@link stringify}.
+   */
+  update?(text: string, data: unknown): string;
+}
+
+/** Plain JSON, written with 2 space indentation. */
+const json: FileFormat = {
+  parse: (text) => JSON.parse(text),
+  stringify,
+};
+
+/** JSON with comments and trailing commas. */
+const jsonc: FileFormat = {
+  parse(text) {
+    const errors: ParseError[] = [];
+    const content = parseJsonc(text, errors, { allowTrailingComma: true });
+    if (errors.length > 0) {
+      const [{ error, offset }] = errors as [ParseError];
+      throw new SyntaxError(
+        `${printParseErrorCode(error)} in JSONC at position ${offset}`,
+      );
+    }
+    return content;
+  },
+  stringify,
+  update: updateText,
+};
+
+/**
+ * JSON5. Text which is also valid JSONC, e.g. without unquoted keys or single
+ * quoted strings, keeps it's comments and formatting when updated. Other text
+ * is rewritten.
+ */
+const json5: FileFormat = {
+  parse: (text) => JSON5.parse(text),
+  stringify: (data) => JSON5.stringify(data, undefined, 2),
+  update(text, data) {
+    try {
+      jsonc.parse(text);
+    } catch {
+      return json5.stringify(data);
+    }
+    return updateText(text, data);
+  },
+};
+
+/** File formats by extension. Other extensions are read as {@link json}. */
+const formats: Record<string, FileFormat> = {
+  ".json": json,
+  ".jsonc": jsonc,
+  ".json5": json5,
+};
+
+/** Returns the format of the file at the given path, by it's extension. */
+export function getFileFormat(path: string): FileFormat {
+  return formats[Path.extname(path).toLowerCase()] ?? json;
+}
+
+function stringify(data: unknown) {
+  return JSON.stringify(data, undefined, 2);
+}
+
+/**
+ * Updates the text with the smallest edits from it's current content to the
+ * given content, so that comments and formatting outside of the changed
+ * values are kept.
+ */
+function updateText(text: string, data: unknown) {
+  const options = { formattingOptions: detectFormatting(text) };
+  const current = jsonc.parse(text);
+  let updated = text;
+  const edit = (path: JSONPath, value: unknown, isArrayInsertion = false) => {
+    updated = applyEdits(
+      updated,
+      modify(updated, path, value, { ...options, isArrayInsertion }),
+    );
+  };
+  const visit = (path: JSONPath, from: unknown, to: unknown) => {
+    if (isDeepEqual(from, to)) {
+      return;
+    }
+    if (Array.isArray(from) && Array.isArray(to)) {
+      const common = Math.min(from.length, to.length);
+      for (let i = 0; i < common; i++) {
+        visit([...path, i], from[i], to[i]);
+      }
+      for (let i = from.length - 1; i >= common; i--) {
+        edit([...path, i], undefined);
+      }
+      for (let i = common; i < to.length; i++) {
+        edit([...path, i], to[i], true);
+      }
+    } else if (isObject(from) && isObject(to)) {
+      for (const key of Object.keys(from)) {
+        if (!Object.hasOwn(to, key)) {
+          edit([...path, key], undefined);
+        }
+      }
+      for (const [key, value] of Object.entries(to)) {
+        if (Object.hasOwn(from, key)) {
+          visit([...path, key], from[key], value);
+        } else {
+          edit([...path, key], value);
+        }
+      }
+    } else {
+      edit(path, to);
+    }
+  };
+  visit([], current, data);
+  return updated;
+}
+
+/** Returns the indentation and line endings used by the text. */
+function detectFormatting(text: string): FormattingOptions {
+  const indent = /^[ \t]+(?=\S)/m.exec(text)?.[0] ?? "  ";
+  return {
+    eol: text.includes("\r\n") ? "\r\n" : "\n",
+    insertSpaces: !indent.startsWith("\t"),
+    tabSize: indent.startsWith("\t") ? 1 : indent.length,
+  };
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
@@ -1,3 +1,5 @@
+import type { NodeChange } from "@/types";
+
 /**
  * Maps file path to node id. Represents the contents of the ids file used by
  * the {@link FsDriver} to store ids generated for files in the db.
@@ -21,10 +23,47 @@ export interface Node {
     ctime: number;
   };
   content?: unknown;
-  // history?: NodeChange[];
-  // futures?: NodeChange[];
+  /** Changes that can be undone, most recent last. */
+  history?: NodeChange[];
+  /** Changes that were undone and can be redone, most recently undone last. */
+  futures?: NodeChange[];
 }
 
+/**
+ * A file system operation staged by a {@link FsTransaction} and applied to
+ * disk when the transaction is committed.
+ */
+export type FsOperation =
+  | {
+      type: "mkdir";
+      /** Full path of the directory to make. */
+      path: string;
+      node: Node;
+    }
+  | {
+      type: "remove";
+      /** Full path of the directory or file to remove. */
+      path: string;
+    }
+  | {
+      type: "rename";
+      /** Full path of the directory or file to rename. */
+      from: string;
+      /** New full path of the directory or file. */
+      to: string;
+      node: Node;
+    }
+  | {
+      type: "write";
+      /** Full path of the file to write. */
+      path: string;
+      /** The file contents. */
+      data: string;
+      /** The file content, to update the text of an existing file with. */
+      content: unknown;
+      node: Node;
+    };
+
 export type MapNodeFn<T = Node> = (node: Node) => T;
 
 export function MapNodeDefault(node: Node): Node {
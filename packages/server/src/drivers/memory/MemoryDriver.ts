@@ -0,0 +1,101 @@
+import FS from "node:fs";
+// Local
+import { FsDriver } from "@/drivers/fs";
+import type { FsOperation, Node } from "@/drivers/fs/types";
+import { isDirectoryNode } from "@/drivers/fs/types";
+import type { MemorySeed } from "@/types";
+
+/**
+ * A driver which keeps the directories and files of the database in memory
+ * only, e.g. for tests and ephemeral databases.
+ *
+ * When opened, it loads the `root` directory if it exists (without ever
+ * writing to it) and then the {@link MemoryDriverConfig.files}, if any.
+ * Transactions work the same as with the {@link FsDriver}.
+ *
+ * @example
+ * const db = new Database({
+ *   root: "fixtures/simple-project/data",
+ *   type: "memory",
+ *   memory: { files: { "db/users.json": [] } },
+ * });
+ * await db.open();
+ * // ...
+ * const files = (db.driver as MemoryDriver).dump();
+ */
+export class MemoryDriver<DB = any> extends FsDriver<DB> {
+  /** Loads the root directory, if it exists, then the seed files. */
+  protected override async load() {
+    if (FS.existsSync(this.path)) {
+      await super.load();
+    }
+    const files = this._db.config.memory?.files;
+    if (files) {
+      this.seed(files);
+    }
+  }
+
+  /** Nothing is written, only the change times are updated. */
+  override async applyOperations(operations: FsOperation[]) {
+    const ctime = Date.now();
+    for (const op of operations) {
+      if ("node" in op) {
+        op.node.entry.ctime = ctime;
+      }
+    }
+  }
+
+  /**
+   * Returns the directories and files of the database in the same format
+   * as {@link MemoryDriverConfig.files}, which can be used to seed another.
+   */
+  dump(): MemorySeed {
+    const files: MemorySeed = {};
+    this.eachNode(null, (node) => {
+      const path = this.getNodePath(node);
+      if (isDirectoryNode(node)) {
+        files[path + "/"] = null;
+      } else {
+        files[path] = structuredClone(node.content);
+      }
+    });
+    return files;
+  }
+
+  /** Adds the seed directories and files, with any missing parents. */
+  private seed(files: MemorySeed) {
+    const nodesByPath = new Map<string, Node>();
+    this.eachNode(null, (node) => {
+      nodesByPath.set(this.getNodePath(node), node);
+    });
+    const paths = Object.keys(files).sort();
+    for (const path of paths) {
+      const isDir = path.endsWith("/");
+      const names = path.split("/").filter(Boolean);
+      let parentNode: Node | undefined;
+      names.forEach((name, i) => {
+        const nodePath = names.slice(0, i + 1).join("/");
+        let node = nodesByPath.get(nodePath);
+        if (!node) {
+          node = this.createNode(name, {
+            isDir: isDir || i < names.length - 1,
+            pId: parentNode?.id,
+          });
+          this.setNodeParent(node, parentNode);
+          this.sortNodeSiblings(node);
+          nodesByPath.set(nodePath, node);
+        }
+        if (!isDir && i === names.length - 1) {
+          if (isDirectoryNode(node)) {
+            throw new Error(`Expected a file path - "${path}"`);
+          }
+          node.content = structuredClone(files[path]);
+        }
+        parentNode = node;
+      });
+    }
+  }
+
+  /** Ids are only kept in memory. */
+  protected override async writeIdsFile() {}
+}
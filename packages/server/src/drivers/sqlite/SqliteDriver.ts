@@ -0,0 +1,143 @@
+import Path from "node:path";
+import BetterSqlite3 from "better-sqlite3";
+// Local
+import { FsDriver } from "@/drivers/fs";
+import { getFileFormat } from "@/drivers/fs/formats";
+import type { FsOperation, Node } from "@/drivers/fs/types";
+
+/** A row of the `nodes` table. */
+interface NodeRow {
+  /** Path relative to the root, e.g. `"my/folder/file.json"`. */
+  path: string;
+  /** Directory or File id. Begins with `d` or `f` for Directory or File. */
+  id: string;
+  /** Change time Unix timestamp, e.g. milliseconds since UTC 1970-01-01. */
+  ctime: number;
+  /** File text, `null` for directories. */
+  content: string | null;
+}
+
+/**
+ * A driver which stores the directories and files of the database, with their
+ * ids, in a single SQLite database file at the configured `root` path.
+ *
+ * Transactions work the same as with the {@link FsDriver}, except that their
+ * operations are committed in one SQLite transaction, so they are either all
+ * saved or none are.
+ */
+export class SqliteDriver<DB = any> extends FsDriver<DB> {
+  private _sqlite: BetterSqlite3.Database | undefined;
+
+  override async close() {
+    await super.close();
+    if (this._sqlite) {
+      this._sqlite.close();
+      this._sqlite = undefined;
+    }
+  }
+
+  /** Loads all directories and files from the database file. */
+  protected override async load() {
+    const sqlite = new BetterSqlite3(this.path);
+    sqlite.pragma("journal_mode = WAL");
+    sqlite.exec(`
+      CREATE TABLE IF NOT EXISTS nodes (
+        path TEXT PRIMARY KEY,
+        id TEXT NOT NULL UNIQUE,
+        ctime INTEGER NOT NULL,
+        content TEXT
+      )
+    `);
+    const rows = sqlite
+      .prepare("SELECT path, id, ctime, content FROM nodes ORDER BY path")
+      .all() as NodeRow[];
+    const dirsByPath = new Map<string, Node>();
+    // Rows are sorted by path, so parents come before their children.
+    for (const { path, id, ctime, content } of rows) {
+      const parentPath = Path.posix.dirname(path);
+      const parentNode = dirsByPath.get(parentPath);
+      const isDir = id.startsWith("d");
+      const node = this.createNode(Path.posix.basename(path), {
+        id,
+        isDir,
+        pId: parentNode?.id,
+        stats: { ctime },
+      });
+      this.setNodeParent(node, parentNode);
+      if (isDir) {
+        dirsByPath.set(path, node);
+      } else {
+        node.content = getFileFormat(path).parse(content ?? "null");
+      }
+    }
+    this._sqlite = sqlite;
+  }
+
+  /** Ids are stored in the database file. */
+  protected override async writeIdsFile() {}
+
+  /**
+   * Applies staged operations in one SQLite transaction. If any operation
+   * fails, none are saved and the error is thrown.
+   */
+  override async applyOperations(operations: FsOperation[]) {
+    const { _sqlite: sqlite } = this;
+    if (operations.length < 1 || !sqlite) {
+      return;
+    }
+    const relative = (fullPath: string) =>
+      Path.relative(this.path, fullPath).split(Path.sep).join("/");
+    const insert = sqlite.prepare(
+      "INSERT INTO nodes (path, id, ctime, content) VALUES (?, ?, ?, ?)",
+    );
+    const write = sqlite.prepare(`
+      INSERT INTO nodes (path, id, ctime, content) VALUES (?, ?, ?, ?)
+      ON CONFLICT(path) DO UPDATE SET ctime = excluded.ctime,
+        content = excluded.content
+    `);
+    const remove = sqlite.prepare(`
+      DELETE FROM nodes WHERE path = ? OR substr(path, 1, ?) = ?
+    `);
+    const rename = sqlite.prepare(`
+      UPDATE nodes SET path = ? || substr(path, ?)
+      WHERE path = ? OR substr(path, 1, ?) = ?
+    `);
+    const ctime = Date.now();
+    sqlite.transaction(() => {
+      for (const op of operations) {
+        switch (op.type) {
+          case "mkdir":
+            insert.run(relative(op.path), op.node.id, ctime, null);
+            break;
+          case "remove": {
+            const path = relative(op.path);
+            remove.run(path, path.length + 1, path + "/");
+            break;
+          }
+          case "rename": {
+            const from = relative(op.from);
+            rename.run(
+              relative(op.to),
+              from.length + 1,
+              from,
+              from.length + 1,
+              from + "/",
+            );
+            break;
+          }
+          case "write":
+            write.run(relative(op.path), op.node.id, ctime, op.data);
+            break;
+        }
+      }
+    })();
+    this._logger.debug(`Applied ${operations.length} operations.`, {
+      operations: operations.map((op) => op.type),
+    });
+    for (const op of operations) {
+      if ("node" in op) {
+        op.node.entry.ctime = ctime;
+      }
+    }
+  }
+}
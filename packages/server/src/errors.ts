@@ -0,0 +1,262 @@
+import type { ValidationIssue } from "@/types";
+
+/**
+ * Base class of the errors thrown by the database for expected failures, e.g.
+ * invalid input or conflicts, which callers may handle by it's subclass.
+ */
+export class JdexError extends Error {
+  override readonly name: string = "JdexError";
+}
+
+/** Thrown when calling a database which isn't opened, or was closed. */
+export class DatabaseClosedError extends JdexError {
+  override readonly name = "DatabaseClosedError";
+  /** The root path of the database. */
+  readonly path: string;
+
+  constructor(path: string) {
+    super(`Database is closed - "${path}"`);
+    this.path = path;
+  }
+}
+
+/**
+ * Thrown when writing file content that isn't a JSON value, e.g. `undefined`.
+ */
+export class InvalidContentError extends JdexError {
+  override readonly name = "InvalidContentError";
+  /** Path of the file being written, relative to the database root. */
+  readonly path: string;
+
+  constructor(path: string) {
+    super(`Invalid content, expected a JSON value - "${path}"`);
+    this.path = path;
+  }
+}
+
+/** Thrown when looking up values in an index which isn't configured. */
+export class IndexNotFoundError extends JdexError {
+  override readonly name = "IndexNotFoundError";
+  /** Name of the index. */
+  readonly index: string;
+
+  constructor(index: string) {
+    super(`Index not found - "${index}"`);
+    this.index = index;
+  }
+}
+
+/** Thrown when moving a directory into itself or one of it's descendants. */
+export class InvalidMoveError extends JdexError {
+  override readonly name = "InvalidMoveError";
+  /** Id of the directory being moved. */
+  readonly id: string;
+  /** Id of the directory it would be moved into. */
+  readonly toId: string;
+
+  constructor(info: { id: string; toId: string }) {
+    super(`Can't move a directory into itself - "${info.id}"`);
+    this.id = info.id;
+    this.toId = info.toId;
+  }
+}
+
+/** Thrown when the name of a directory or file isn't allowed. */
+export class InvalidNameError extends JdexError {
+  override readonly name = "InvalidNameError";
+  /** The name that isn't allowed. */
+  readonly nodeName: string;
+  /** Why it isn't allowed, e.g. `"contains a path separator"`. */
+  readonly reason: string;
+
+  constructor(info: { nodeName: string; reason: string }) {
+    super(`Invalid name, ${info.reason} - "${info.nodeName}"`);
+    this.nodeName = info.nodeName;
+    this.reason = info.reason;
+  }
+}
+
+/** Thrown when a JSON Patch operation can't be applied to file content. */
+export class InvalidPatchError extends JdexError {
+  override readonly name = "InvalidPatchError";
+  /** Index of the operation which can't be applied, if any. */
+  readonly index?: number;
+  /** Why it can't be applied, e.g. `'path not found "/a"'`. */
+  readonly reason: string;
+
+  constructor(info: { index?: number; reason: string }) {
+    super(
+      info.index === undefined
+        ? `Invalid patch, ${info.reason}`
+        : `Invalid patch operation ${info.index}, ${info.reason}`,
+    );
+    this.index = info.index;
+    this.reason = info.reason;
+  }
+}
+
+/** Thrown when a JMESPath query expression can't be compiled or run. */
+export class InvalidQueryError extends JdexError {
+  override readonly name = "InvalidQueryError";
+  /** The query expression. */
+  readonly expression: string;
+  /** Why it can't be run, e.g. `"Unknown function: nope()"`. */
+  readonly reason: string;
+
+  constructor(info: { expression: string; reason: string }) {
+    super(`Invalid query, ${info.reason} - "${info.expression}"`);
+    this.expression = info.expression;
+    this.reason = info.reason;
+  }
+}
+
+/**
+ * Thrown when a directory or file would have the same name as another in the
+ * same directory, ignoring case, e.g. when adding, moving or renaming. See
+ * {@link NameConflictMode} to overwrite or number the name instead.
+ */
+export class NameConflictError extends JdexError {
+  override readonly name = "NameConflictError";
+  /** The conflicting path, relative to the database root. */
+  readonly path: string;
+  /** Id of the directory or file that already has the path. */
+  readonly existingId: string;
+
+  constructor(info: { path: string; existingId: string }) {
+    super(`Name already exists - "${info.path}"`);
+    this.path = info.path;
+    this.existingId = info.existingId;
+  }
+}
+
+/** Thrown when a node id isn't found. */
+export class NodeNotFoundError extends JdexError {
+  override readonly name = "NodeNotFoundError";
+  /** The id that wasn't found. */
+  readonly id: string;
+
+  constructor(id: string) {
+    super(`Node not found - "${id}"`);
+    this.id = id;
+  }
+}
+
+/** Thrown when a node id is a file where a directory is expected. */
+export class NotADirectoryError extends JdexError {
+  override readonly name = "NotADirectoryError";
+  /** The file id. */
+  readonly id: string;
+
+  constructor(id: string) {
+    super(`Node is not a directory - "${id}"`);
+    this.id = id;
+  }
+}
+
+/** Thrown when a node id is a directory where a file is expected. */
+export class NotAFileError extends JdexError {
+  override readonly name = "NotAFileError";
+  /** The directory id. */
+  readonly id: string;
+
+  constructor(id: string) {
+    super(`Node is not a file - "${id}"`);
+    this.id = id;
+  }
+}
+
+/**
+ * Thrown when adding, moving or renaming to a path which is ignored. See
+ * {@link FsDriverConfig.ignore}.
+ */
+export class PathIgnoredError extends JdexError {
+  override readonly name = "PathIgnoredError";
+  /** The ignored path, relative to the database root. */
+  readonly path: string;
+
+  constructor(path: string) {
+    super(`Path is ignored - "${path}"`);
+    this.path = path;
+  }
+}
+
+/** Thrown when a model file's path doesn't match the `files` of it's schema. */
+export class SchemaMismatchError extends JdexError {
+  override readonly name = "SchemaMismatchError";
+  /** Path of the file, relative to the database root. */
+  readonly path: string;
+  /** Name of the schema. */
+  readonly schema: string;
+
+  constructor(info: { path: string; schema: string }) {
+    super(`File does not match schema "${info.schema}" - "${info.path}"`);
+    this.path = info.path;
+    this.schema = info.schema;
+  }
+}
+
+/** Thrown when getting a model for a schema which isn't configured. */
+export class SchemaNotFoundError extends JdexError {
+  override readonly name = "SchemaNotFoundError";
+  /** Name of the schema. */
+  readonly schema: string;
+
+  constructor(schema: string) {
+    super(`Schema not found - "${schema}"`);
+    this.schema = schema;
+  }
+}
+
+/** Thrown when using a transaction after it was committed or rolled back. */
+export class TransactionCompletedError extends JdexError {
+  override readonly name = "TransactionCompletedError";
+
+  constructor() {
+    super("Transaction already completed.");
+  }
+}
+
+/** Thrown when a value is already indexed for another file by a unique index. */
+export class UniqueIndexError extends JdexError {
+  override readonly name = "UniqueIndexError";
+  /** Path of the file being written, relative to the database root. */
+  readonly file: string;
+  /** Name of the index. */
+  readonly index: string;
+  /** Id of the file that already has the value. */
+  readonly existingId: string;
+  /** The duplicate value. */
+  readonly value: string | number | boolean;
+
+  constructor(info: {
+    file: string;
+    index: string;
+    existingId: string;
+    value: string | number | boolean;
+  }) {
+    super(
+      `Duplicate value in unique index "${info.index}" - "${info.file}" ` +
+        `has ${JSON.stringify(info.value)} already indexed for "${info.existingId}"`,
+    );
+    this.file = info.file;
+    this.index = info.index;
+    this.existingId = info.existingId;
+    this.value = info.value;
+  }
+}
+
+/** Thrown when file content doesn't validate against a matching schema. */
+export class ValidationError extends JdexError {
+  override readonly name = "ValidationError";
+  /** Each value that failed validation. */
+  readonly issues: ValidationIssue[];
+
+  constructor(issues: ValidationIssue[]) {
+    const files = [...new Set(issues.map((it) => it.file))];
+    const details = issues
+      .map((it) => `  ${it.file}${it.path} (${it.schema}): ${it.message}`)
+      .join("\n");
+    super(`Validation failed - "${files.join(`", "`)}"\n${details}`);
+    this.issues = issues;
+  }
+}
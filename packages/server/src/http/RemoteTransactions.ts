@@ -0,0 +1,215 @@
+import type { NodeInfo, SyncMethod } from "jdex";
+import { nanoid } from "nanoid";
+// Local
+import type { Database } from "@/Database";
+import { NodeNotFoundError } from "@/errors";
+import type { JSONPatchDocument, Transaction } from "@/types";
+import { HttpError } from "./errors";
+
+export interface RemoteTransactionsOptions {
+  /**
+   * Milliseconds a remote transaction may wait for it's next call before it's
+   * rolled back. Defaults to `30000`.
+   */
+  timeout?: number;
+}
+
+/** The query methods a remote client may call. */
+const SYNC_METHODS: Record<SyncMethod, true> = {
+  addDirectory: true,
+  addFile: true,
+  get: true,
+  id: true,
+  lookup: true,
+  move: true,
+  nodes: true,
+  patch: true,
+  path: true,
+  query: true,
+  read: true,
+  remove: true,
+  rename: true,
+  write: true,
+};
+
+/** A running database transaction controlled by a remote client. */
+interface Session {
+  trx: Transaction;
+  /** Resolves the transaction callback, letting the transaction commit. */
+  resolve: () => void;
+  /** The database transaction, settled once the transaction has ended. */
+  done: Promise<void>;
+  timer?: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Runs the query methods called by remote clients, either in a transaction
+ * of their own or in a remote transaction which the client began and will
+ * commit or roll back.
+ */
+export class RemoteTransactions {
+  /** Object name for the default `toString` implementation. */
+  public readonly [Symbol.toStringTag]: string = "RemoteTransactions";
+  public readonly db: Database<any>;
+  /** Milliseconds a remote transaction may idle before it's rolled back. */
+  public readonly timeout: number;
+
+  private _sessions = new Map<string, Session>();
+
+  constructor(db: Database<any>, options: RemoteTransactionsOptions = {}) {
+    const { timeout = 30000 } = options;
+    this.db = db;
+    this.timeout = timeout;
+  }
+
+  /** Begins a transaction and returns it's id once it's running. */
+  begin() {
+    return new Promise<string>((resolveBegin, rejectBegin) => {
+      const id = nanoid();
+      const session = {} as Session;
+      session.done = this.db.transaction(
+        (trx) =>
+          new Promise<void>((resolve) => {
+            session.trx = trx;
+            session.resolve = resolve;
+            this._sessions.set(id, session);
+            this.touch(id, session);
+            resolveBegin(id);
+          }),
+      );
+      session.done.catch(rejectBegin);
+    });
+  }
+
+  /**
+   * Calls a query method in the given transaction id or, when no id is given,
+   * in a transaction of it's own. Throws an {@link HttpError} before starting
+   * a transaction if the method isn't a {@link SyncMethod}.
+   */
+  async call(method: SyncMethod, args: unknown[], trxId?: string) {
+    assertSyncMethod(method);
+    if (!trxId) {
+      return this.db.transaction((trx) => callMethod(trx, method, args));
+    }
+    const session = this.session(trxId);
+    this.touch(trxId, session);
+    return callMethod(session.trx, method, args);
+  }
+
+  /** Commits the given transaction id. */
+  async commit(trxId: string) {
+    const session = this.end(trxId);
+    session.resolve();
+    await session.done;
+  }
+
+  /** Returns `true` if the given transaction id is running. */
+  has(trxId: string) {
+    return this._sessions.has(trxId);
+  }
+
+  /** Rolls back the given transaction id. */
+  async rollback(trxId: string) {
+    const session = this.end(trxId);
+    await session.trx.rollback();
+    session.resolve();
+    await session.done;
+  }
+
+  /** Rolls back all running transactions, e.g. when a client disconnects. */
+  async rollbackAll() {
+    await Promise.all(
+      Array.from(this._sessions.keys(), (id) => this.rollback(id)),
+    );
+  }
+
+  private end(trxId: string) {
+    const session = this.session(trxId);
+    clearTimeout(session.timer);
+    this._sessions.delete(trxId);
+    return session;
+  }
+
+  private session(trxId: string) {
+    const session = this._sessions.get(trxId);
+    if (!session) {
+      throw new Error(`Transaction not found - "${trxId}"`);
+    }
+    return session;
+  }
+
+  /** Restarts the timeout of the given transaction. */
+  private touch(trxId: string, session: Session) {
+    clearTimeout(session.timer);
+    session.timer = setTimeout(() => {
+      this.rollback(trxId).catch((ex) =>
+        this.db.logger.warn(`Rollback failed for transaction "${trxId}".`, ex),
+      );
+    }, this.timeout);
+    session.timer.unref();
+  }
+}
+
+/** Calls a query method of the transaction with arguments sent remotely. */
+export async function callMethod(
+  trx: Transaction,
+  method: SyncMethod,
+  args: unknown[],
+): Promise<unknown> {
+  const [a, b] = args as any[];
+  switch (method) {
+    case "addDirectory":
+      return trx.addDirectory(a, b);
+    case "addFile":
+      return trx.addFile(a, b);
+    case "get":
+      return trx.get(a);
+    case "id":
+      return trx.id(a);
+    case "lookup":
+      return trx.lookup(a, b);
+    case "move":
+      assertNode(trx, a);
+      return trx.move(a, b ?? null);
+    case "nodes": {
+      const within = a ?? null;
+      if (within) assertNode(trx, within);
+      const nodes: NodeInfo[] = [];
+      trx.eachNode(within, (node) => {
+        nodes.push(node);
+      });
+      return nodes;
+    }
+    case "patch":
+      assertNode(trx, a);
+      return trx.patch(a, b as JSONPatchDocument);
+    case "path":
+      return trx.path(a ?? null);
+    case "query":
+      return trx.query(a, b);
+    case "read":
+      return trx.read(a);
+    case "remove":
+      return trx.remove(a);
+    case "rename":
+      assertNode(trx, a);
+      return trx.rename(a, b);
+    case "write":
+      assertNode(trx, a);
+      return trx.write(a, b);
+    default:
+      throw new HttpError(400, `Unknown method - "${method as string}"`);
+  }
+}
+
+function assertSyncMethod(method: unknown): asserts method is SyncMethod {
+  if (typeof method !== "string" || !Object.hasOwn(SYNC_METHODS, method)) {
+    throw new HttpError(400, `Unknown method - "${String(method)}"`);
+  }
+}
+
+export function assertNode(trx: Transaction, id: string) {
+  if (trx.path(id) === undefined) {
+    throw new NodeNotFoundError(id);
+  }
+}
@@ -0,0 +1,357 @@
+import type { IncomingMessage, ServerResponse } from "node:http";
+import type { SyncMethod } from "jdex";
+// Local
+import type { Database } from "@/Database";
+import { NodeNotFoundError } from "@/errors";
+import type { NodeInfo, Transaction } from "@/types";
+import { HttpError, errorStatus, toErrorData } from "./errors";
+import { RemoteTransactions } from "./RemoteTransactions";
+
+export interface RequestHandlerOptions {
+  /**
+   * Maximum size of a request body in bytes. Defaults to `1048576` (1 MiB).
+   */
+  limit?: number;
+  /** Base path of all routes, e.g. `"/api/jdex"`. Defaults to `""`. */
+  prefix?: string;
+  /**
+   * Milliseconds a remote transaction may wait for it's next call before it's
+   * rolled back. Defaults to `30000`.
+   */
+  timeout?: number;
+}
+
+/**
+ * A request handler for `node:http` servers, or middleware for frameworks
+ * such as Express and Connect. When `next` is given, requests that don't
+ * match a route are passed on to it, otherwise they get a `404` response.
+ */
+export type RequestHandler = (
+  req: IncomingMessage,
+  res: ServerResponse,
+  next?: (err?: unknown) => void,
+) => Promise<void>;
+
+/** Values parsed from the request. */
+interface RouteRequest {
+  /** Parsed JSON request body. */
+  body: any;
+  /** Route path parameter, e.g. the `:id` in `/files/:id`. */
+  param: string;
+  query: URLSearchParams;
+}
+
+interface Route {
+  method: string;
+  /** Route path, relative to the prefix, with an optional `:param`. */
+  path: RegExp;
+  /** Runs the route in a transaction of it's own. */
+  run?: (trx: Transaction, req: RouteRequest) => Promise<unknown>;
+  /** Runs the route outside of a transaction, to call remote transactions. */
+  remote?: (
+    transactions: RemoteTransactions,
+    req: RouteRequest,
+  ) => Promise<unknown>;
+}
+
+/**
+ * Creates a request handler which serves a JSON API for the database. Each
+ * request runs in it's own {@link Database.transaction}.
+ *
+ * Routes:
+ * - `GET /nodes[?within=id]` - List of {@link NodeInfo} in depth-first order.
+ * - `GET /id?path=my/file.json` - The `{ id }` of a path.
+ * - `GET /files/:id` - File content.
+ * - `PUT /files/:id` - Write the file content from the request body.
+ * - `PATCH /files/:id` - Apply a JSON Patch, returns `{ patch, inverse }`.
+ * - `POST /files` - Add a file from `{ name, data, pId? }`, returns `{ id }`.
+ * - `POST /directories` - Add a directory from `{ name, pId? }`.
+ * - `POST /nodes/:id/move` - Move a node from `{ toId }`, returns `{ path }`.
+ * - `POST /nodes/:id/rename` - Rename a node from `{ name }`.
+ * - `DELETE /nodes/:id` - Remove a node, returns `{ removed }`.
+ * - `POST /call` - Call a query method from `{ method, args, trx? }` in the
+ *   remote transaction `trx` or in it's own, returns `{ result }`.
+ * - `POST /transactions` - Begin a remote transaction, returns `{ trx }`.
+ * - `POST /transactions/:trx/commit` - Commit a remote transaction.
+ * - `POST /transactions/:trx/rollback` - Roll back a remote transaction.
+ *
+ * Errors respond with `{ error: { name, message } }` and a matching status,
+ * e.g. `422` with the `issues` of a {@link ValidationError}.
+ *
+ * @example
+ * const handler = createRequestHandler(db, { prefix: "/api" });
+ * Http.createServer((req, res) => handler(req, res)).listen(8080);
+ */
+export function createRequestHandler(
+  db: Database<any>,
+  options: RequestHandlerOptions = {},
+): RequestHandler {
+  const { limit = 1048576, prefix = "", timeout } = options;
+  const transactions = new RemoteTransactions(db, { timeout });
+  return async function handleRequest(req, res, next) {
+    try {
+      const url = new URL(req.url ?? "/", "http://localhost");
+      const found = findRoute(req.method, url.pathname, prefix);
+      if (!found) {
+        if (next) {
+          next();
+        } else {
+          sendError(res, new HttpError(404, "Not found"));
+        }
+        return;
+      }
+      const { route, param } = found;
+      // Read the body before the transaction, to not hold up other requests.
+      const body =
+        req.method === "GET" || req.method === "DELETE"
+          ? undefined
+          : await readBody(req, limit);
+      const routeReq: RouteRequest = { body, param, query: url.searchParams };
+      const { remote, run } = route;
+      const result = run
+        ? await db.transaction((trx) => run(trx, routeReq))
+        : await remote!(transactions, routeReq);
+      sendJson(res, result === undefined ? 204 : 200, result);
+    } catch (ex) {
+      sendError(res, ex);
+    }
+  };
+}
+
+/** Finds the route matching the request and decodes it's path parameter. */
+function findRoute(
+  method: string | undefined,
+  pathname: string,
+  prefix: string,
+) {
+  if (!pathname.startsWith(prefix)) {
+    return undefined;
+  }
+  const routePath = pathname.substring(prefix.length) || "/";
+  for (const route of routes) {
+    const match = route.method === method && route.path.exec(routePath);
+    if (match) {
+      return { route, param: decodeParam(match[1] ?? "") };
+    }
+  }
+  return undefined;
+}
+
+const routes: Route[] = [
+  {
+    method: "GET",
+    path: /^\/nodes\/?$/,
+    async run(trx, { query }) {
+      const within = query.get("within") || null;
+      if (within) assertNode(trx, within);
+      const nodes: NodeInfo[] = [];
+      trx.eachNode(within, (node) => {
+        nodes.push(node);
+      });
+      return nodes;
+    },
+  },
+  {
+    method: "GET",
+    path: /^\/id\/?$/,
+    async run(trx, { query }) {
+      const path = query.get("path") ?? "";
+      const id = trx.id(path);
+      if (!id) {
+        throw new HttpError(404, `Path not found - "${path}"`);
+      }
+      return { id };
+    },
+  },
+  {
+    method: "GET",
+    path: /^\/files\/([^/]+)$/,
+    async run(trx, { param }) {
+      const content = await trx.get(param);
+      if (content === undefined) {
+        throw new HttpError(404, `File not found - "${param}"`);
+      }
+      return content;
+    },
+  },
+  {
+    method: "PUT",
+    path: /^\/files\/([^/]+)$/,
+    async run(trx, { body, param }) {
+      assertNode(trx, param);
+      if (body === undefined) {
+        throw new HttpError(400, "Expected the file content.");
+      }
+      await trx.write(param, body);
+    },
+  },
+  {
+    method: "PATCH",
+    path: /^\/files\/([^/]+)$/,
+    async run(trx, { body, param }) {
+      assertNode(trx, param);
+      if (!Array.isArray(body)) {
+        throw new HttpError(400, "Expected an array of JSON Patch operations.");
+      }
+      return trx.patch(param, body);
+    },
+  },
+  {
+    method: "POST",
+    path: /^\/files\/?$/,
+    async run(trx, { body }) {
+      const { name, data, pId } = body ?? {};
+      assertName(name);
+      if (data === undefined) {
+        throw new HttpError(400, "Expected the file data.");
+      }
+      if (pId) assertNode(trx, pId);
+      return { id: await trx.addFile(name, { data, pId }) };
+    },
+  },
+  {
+    method: "POST",
+    path: /^\/directories\/?$/,
+    async run(trx, { body }) {
+      const { name, pId } = body ?? {};
+      assertName(name);
+      if (pId) assertNode(trx, pId);
+      return { id: await trx.addDirectory(name, pId) };
+    },
+  },
+  {
+    method: "POST",
+    path: /^\/nodes\/([^/]+)\/move$/,
+    async run(trx, { body, param }) {
+      const { toId } = body ?? {};
+      assertNode(trx, param);
+      if (toId) assertNode(trx, toId);
+      return { path: await trx.move(param, toId ?? null) };
+    },
+  },
+  {
+    method: "POST",
+    path: /^\/nodes\/([^/]+)\/rename$/,
+    async run(trx, { body, param }) {
+      const { name } = body ?? {};
+      assertName(name);
+      assertNode(trx, param);
+      return { path: await trx.rename(param, name) };
+    },
+  },
+  {
+    method: "DELETE",
+    path: /^\/nodes\/([^/]+)$/,
+    async run(trx, { param }) {
+      assertNode(trx, param);
+      return { removed: await trx.remove(param) };
+    },
+  },
+  {
+    method: "POST",
+    path: /^\/call\/?$/,
+    async remote(transactions, { body }) {
+      const { args = [], method, trx } = body ?? {};
+      if (typeof method !== "string" || !Array.isArray(args)) {
+        throw new HttpError(400, "Expected a method and array of args.");
+      }
+      if (trx) assertTransaction(transactions, trx);
+      return {
+        result: await transactions.call(method as SyncMethod, args, trx),
+      };
+    },
+  },
+  {
+    method: "POST",
+    path: /^\/transactions\/?$/,
+    async remote(transactions) {
+      return { trx: await transactions.begin() };
+    },
+  },
+  {
+    method: "POST",
+    path: /^\/transactions\/([^/]+)\/commit$/,
+    async remote(transactions, { param }) {
+      assertTransaction(transactions, param);
+      await transactions.commit(param);
+    },
+  },
+  {
+    method: "POST",
+    path: /^\/transactions\/([^/]+)\/rollback$/,
+    async remote(transactions, { param }) {
+      assertTransaction(transactions, param);
+      await transactions.rollback(param);
+    },
+  },
+];
+
+function assertName(name: unknown): asserts name is string {
+  if (typeof name !== "string" || !name.trim()) {
+    throw new HttpError(400, "Expected a name.");
+  }
+}
+
+function assertTransaction(transactions: RemoteTransactions, trx: string) {
+  if (!transactions.has(trx)) {
+    throw new HttpError(404, `Transaction not found - "${trx}"`);
+  }
+}
+
+function assertNode(trx: Transaction, id: string) {
+  if (trx.path(id) === undefined) {
+    throw new NodeNotFoundError(id);
+  }
+}
+
+function decodeParam(param: string) {
+  try {
+    return decodeURIComponent(param);
+  } catch (ex) {
+    if (ex instanceof URIError) {
+      throw new HttpError(400, "Malformed path");
+    }
+    throw ex;
+  }
+}
+
+async function readBody(req: IncomingMessage, limit: number) {
+  // Use the body parsed by frameworks such as Express, if any.
+  const parsed = (req as IncomingMessage & { body?: unknown }).body;
+  if (parsed !== undefined) {
+    return parsed;
+  }
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > limit) {
+      throw new HttpError(413, `Request body exceeds ${limit} bytes.`);
+    }
+    chunks.push(chunk);
+  }
+  const json = Buffer.concat(chunks).toString();
+  try {
+    return json ? JSON.parse(json) : undefined;
+  } catch (ex) {
+    throw new HttpError(400, "Invalid JSON request body.");
+  }
+}
+
+function sendError(res: ServerResponse, err: unknown) {
+  sendJson(res, errorStatus(err), { error: toErrorData(err) });
+}
+
+function sendJson(res: ServerResponse, status: number, data: unknown) {
+  if (status === 204) {
+    res.writeHead(status).end();
+    return;
+  }
+  const json = JSON.stringify(data);
+  res
+    .writeHead(status, {
+      "Content-Type": "application/json; charset=utf-8",
+      "Content-Length": Buffer.byteLength(json),
+    })
+    .end(json);
+}
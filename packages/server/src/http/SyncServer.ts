@@ -0,0 +1,302 @@
+import type { IncomingMessage, Server } from "node:http";
+import type { Duplex } from "node:stream";
+import type {
+  NodeInfo,
+  SyncChange,
+  SyncClientMessage,
+  SyncMutation,
+  SyncServerMessage,
+} from "jdex";
+import { WebSocket, WebSocketServer } from "ws";
+// Local
+import type { Database } from "@/Database";
+import type { ChangeEvent, JSONPatchDocument, Transaction } from "@/types";
+import { HttpError, toErrorData } from "./errors";
+import { RemoteTransactions, assertNode } from "./RemoteTransactions";
+
+export interface SyncServerOptions {
+  /**
+   * Maximum size of a client message in bytes. Defaults to `1048576` (1 MiB).
+   */
+  limit?: number;
+  /** Path of the WebSocket endpoint, e.g. `"/api/sync"`. Defaults to `"/"`. */
+  path?: string;
+  /**
+   * Milliseconds a remote transaction may wait for it's next call before it's
+   * rolled back. Defaults to `30000`.
+   */
+  timeout?: number;
+}
+
+/** A client's subscription to the nodes within a directory, or all nodes. */
+interface Subscription {
+  /** Id of the directory to send changes within, or `null` for all. */
+  within: string | null;
+  /** Current path of the `within` directory. */
+  path: string;
+}
+
+/**
+ * Serves the live-sync protocol over WebSockets, so that several clients can
+ * see each others changes to the database as they happen. See
+ * {@link SyncClientMessage} and {@link SyncServerMessage} for the messages.
+ *
+ * A client sends `subscribe` to get a `snapshot` of the nodes within a
+ * directory, followed by `changes` messages with the JSON Patch of each
+ * changed file. A client sends `mutate` to run mutations in a transaction,
+ * or `call` to call query methods, optionally within a remote transaction.
+ *
+ * @example
+ * const server = Http.createServer(handler).listen(8080);
+ * const sync = new SyncServer(db, { path: "/api/sync" });
+ * sync.attach(server);
+ */
+export class SyncServer {
+  /** Object name for the default `toString` implementation. */
+  public readonly [Symbol.toStringTag]: string = "SyncServer";
+  public readonly db: Database<any>;
+  /** Path of the WebSocket endpoint. */
+  public readonly path: string;
+
+  /** Milliseconds a remote transaction may idle before it's rolled back. */
+  public readonly timeout: number;
+
+  private _wss: WebSocketServer;
+
+  constructor(db: Database<any>, options: SyncServerOptions = {}) {
+    const { limit = 1048576, path = "/", timeout = 30000 } = options;
+    this.db = db;
+    this.path = path;
+    this.timeout = timeout;
+    this._wss = new WebSocketServer({ maxPayload: limit, noServer: true });
+    this._wss.on("connection", (ws) => this.connect(ws));
+  }
+
+  /**
+   * Handles WebSocket upgrade requests to {@link path} on the given server.
+   * Returns a function to detach.
+   */
+  attach(server: Server) {
+    const onUpgrade = (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+      const { pathname } = new URL(req.url ?? "/", "http://localhost");
+      if (pathname === this.path) {
+        this.handleUpgrade(req, socket, head);
+      }
+    };
+    server.on("upgrade", onUpgrade);
+    return () => {
+      server.off("upgrade", onUpgrade);
+    };
+  }
+
+  /** Closes all client connections. */
+  async close() {
+    for (const ws of this._wss.clients) {
+      ws.close(1001);
+    }
+    await new Promise((resolve) => this._wss.close(resolve));
+  }
+
+  /**
+   * Upgrades an HTTP request to a sync connection, e.g. from the `upgrade`
+   * event of a server which also serves other WebSocket endpoints.
+   */
+  handleUpgrade(req: IncomingMessage, socket: Duplex, head: Buffer) {
+    this._wss.handleUpgrade(req, socket, head, (ws) => {
+      this._wss.emit("connection", ws, req);
+    });
+  }
+
+  private connect(ws: WebSocket) {
+    const { db, timeout } = this;
+    /** Subscriptions by the id of their `subscribe` message. */
+    const subscriptions = new Map<number, Subscription>();
+    /** Remote transactions begun by this client. */
+    const transactions = new RemoteTransactions(db, { timeout });
+
+    const send = (message: SyncServerMessage) => {
+      if (ws.readyState === WebSocket.OPEN) {
+        ws.send(JSON.stringify(message));
+      }
+    };
+
+    /** Id of the `mutate` message running, to tag the changes it makes. */
+    let mutating: number | undefined;
+
+    const unsubscribe = db.subscribe((changes) => {
+      const re = mutating;
+      mutating = undefined;
+      for (const [sub, subscription] of subscriptions) {
+        const matched = changes.filter((change) =>
+          matchChange(subscription, change),
+        );
+        if (matched.length > 0) {
+          send({ type: "changes", sub, changes: matched as SyncChange[], re });
+        }
+      }
+    });
+    ws.on("close", () => {
+      unsubscribe();
+      transactions
+        .rollbackAll()
+        .catch((ex) => db.logger.warn("Rollback failed on disconnect.", ex));
+    });
+
+    ws.on("message", async (data) => {
+      let message: SyncClientMessage;
+      try {
+        message = parseMessage(data.toString());
+      } catch (ex) {
+        send({ type: "error", error: toErrorData(ex) });
+        return;
+      }
+      const { id: re } = message;
+      try {
+        switch (message.type) {
+          case "subscribe": {
+            const within = message.within ?? null;
+            // Send the snapshot and subscribe within the transaction so that
+            // no changes are missed or sent before the snapshot.
+            await db.transaction(async (trx) => {
+              if (within) assertNode(trx, within);
+              const nodes: NodeInfo[] = [];
+              trx.eachNode(within, (node) => {
+                nodes.push(node);
+              });
+              subscriptions.set(re, {
+                within,
+                path: within ? trx.path(within)! : "",
+              });
+              send({ type: "snapshot", re, nodes });
+            });
+            break;
+          }
+          case "unsubscribe":
+            subscriptions.delete(message.sub);
+            send({ type: "result", re, result: undefined });
+            break;
+          case "get": {
+            const { ids } = message;
+            // Send within the transaction, before any later changes.
+            await db.transaction(async (trx) => {
+              const result = await Promise.all(ids.map((id) => trx.get(id)));
+              send({ type: "result", re, result });
+            });
+            break;
+          }
+          case "mutate": {
+            const { mutations } = message;
+            send({
+              type: "result",
+              re,
+              result: await db
+                .transaction(async (trx) => {
+                  mutating = re;
+                  const results: unknown[] = [];
+                  for (const mutation of mutations) {
+                    results.push(await mutate(trx, mutation));
+                  }
+                  return results;
+                })
+                .finally(() => (mutating = undefined)),
+            });
+            break;
+          }
+          case "call": {
+            const { args, method, trx } = message;
+            const result = await transactions.call(method, args, trx);
+            send({ type: "result", re, result });
+            break;
+          }
+          case "begin":
+            send({ type: "result", re, result: await transactions.begin() });
+            break;
+          case "commit":
+            await transactions.commit(message.trx);
+            send({ type: "result", re, result: undefined });
+            break;
+          case "rollback":
+            await transactions.rollback(message.trx);
+            send({ type: "result", re, result: undefined });
+            break;
+          default:
+            throw new Error(
+              `Unknown message type - "${(message as { type: unknown }).type}"`,
+            );
+        }
+      } catch (ex) {
+        send({ type: "error", re, error: toErrorData(ex) });
+      }
+    });
+  }
+}
+
+/**
+ * Parses a client message, throwing an {@link HttpError} if it's not an
+ * object with a numeric `id` and a string `type`.
+ */
+function parseMessage(text: string): SyncClientMessage {
+  const message = JSON.parse(text);
+  if (
+    typeof message !== "object" ||
+    message === null ||
+    typeof message.id !== "number" ||
+    typeof message.type !== "string"
+  ) {
+    throw new HttpError(400, "Invalid message.");
+  }
+  return message;
+}
+
+/**
+ * Returns `true` if the change is within the subscription. Updates the
+ * subscription path when it's directory is moved or renamed.
+ */
+function matchChange(subscription: Subscription, change: ChangeEvent) {
+  const { within } = subscription;
+  if (!within) {
+    return true;
+  }
+  const { node } = change;
+  if (node.id === within) {
+    subscription.path = node.path;
+    return true;
+  }
+  const prefix = subscription.path + "/";
+  return (
+    node.path.startsWith(prefix) ||
+    ((change.type === "moved" || change.type === "renamed") &&
+      change.from.startsWith(prefix))
+  );
+}
+
+/** Runs a client mutation and returns it's result. */
+async function mutate(trx: Transaction, mutation: SyncMutation) {
+  switch (mutation.op) {
+    case "addDirectory":
+      return trx.addDirectory(mutation.name, mutation.pId);
+    case "addFile":
+      return trx.addFile(mutation.name, {
+        data: mutation.data,
+        pId: mutation.pId,
+      });
+    case "move":
+      assertNode(trx, mutation.id);
+      return trx.move(mutation.id, mutation.toId);
+    case "patch":
+      assertNode(trx, mutation.id);
+      return trx.patch(mutation.id, mutation.patch as JSONPatchDocument);
+    case "remove":
+      return trx.remove(mutation.id);
+    case "rename":
+      assertNode(trx, mutation.id);
+      return trx.rename(mutation.id, mutation.name);
+    case "write":
+      assertNode(trx, mutation.id);
+      return trx.write(mutation.id, mutation.data);
+    default:
+      throw new Error(
+        `Unknown mutation - "${(mutation as { op: unknown }).op}"`,
+      );
+  }
+}
@@ -0,0 +1,101 @@
+import type { SyncError } from "jdex";
+// Local
+import {
+  DatabaseClosedError,
+  IndexNotFoundError,
+  InvalidContentError,
+  InvalidMoveError,
+  InvalidNameError,
+  InvalidPatchError,
+  InvalidQueryError,
+  JdexError,
+  NameConflictError,
+  NodeNotFoundError,
+  NotADirectoryError,
+  NotAFileError,
+  PathIgnoredError,
+  SchemaMismatchError,
+  SchemaNotFoundError,
+  TransactionCompletedError,
+  UniqueIndexError,
+  ValidationError,
+} from "@/errors";
+
+/** An error with an HTTP status code. */
+export class HttpError extends JdexError {
+  override readonly name = "HttpError";
+  readonly status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.status = status;
+  }
+}
+
+/** Classes of the errors thrown by the database, with details to send. */
+const DATABASE_ERRORS = [
+  DatabaseClosedError,
+  IndexNotFoundError,
+  InvalidContentError,
+  InvalidMoveError,
+  InvalidNameError,
+  InvalidPatchError,
+  InvalidQueryError,
+  NameConflictError,
+  NodeNotFoundError,
+  NotADirectoryError,
+  NotAFileError,
+  PathIgnoredError,
+  SchemaMismatchError,
+  SchemaNotFoundError,
+  TransactionCompletedError,
+  UniqueIndexError,
+  ValidationError,
+];
+
+/** Gets the HTTP status code matching an error thrown by the database. */
+export function errorStatus(err: unknown) {
+  if (err instanceof HttpError) {
+    return err.status;
+  } else if (err instanceof InvalidQueryError) {
+    return 400;
+  } else if (
+    err instanceof IndexNotFoundError ||
+    err instanceof NodeNotFoundError ||
+    err instanceof SchemaNotFoundError
+  ) {
+    return 404;
+  } else if (
+    err instanceof NameConflictError ||
+    err instanceof TransactionCompletedError ||
+    err instanceof UniqueIndexError
+  ) {
+    return 409;
+  } else if (
+    err instanceof InvalidContentError ||
+    err instanceof InvalidMoveError ||
+    err instanceof InvalidNameError ||
+    err instanceof InvalidPatchError ||
+    err instanceof NotADirectoryError ||
+    err instanceof NotAFileError ||
+    err instanceof PathIgnoredError ||
+    err instanceof SchemaMismatchError ||
+    err instanceof ValidationError
+  ) {
+    return 422;
+  } else if (err instanceof DatabaseClosedError) {
+    return 503;
+  }
+  return 500;
+}
+
+/** Converts an error to plain data with the `name`, `message` and details. */
+export function toErrorData(err: unknown): SyncError {
+  const error = err instanceof Error ? err : new Error(String(err));
+  const { message, name } = error;
+  if (DATABASE_ERRORS.some((it) => error instanceof it)) {
+    // Their own fields are the details, e.g. the `issues` of a validation.
+    return { ...error, name, message };
+  }
+  return { name, message };
+}
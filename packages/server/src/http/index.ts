@@ -0,0 +1,2 @@
+export * from "./RequestHandler";
+export * from "./SyncServer";
@@ -0,0 +1,82 @@
+import { InvalidNameError } from "@/errors";
+
+/** Maximum length of a name, the limit of most file systems. */
+const MAX_NAME_LENGTH = 255;
+
+/** Characters which aren't allowed in names on some file systems. */
+const INVALID_CHARS = /[<>:"|?*\\/]/;
+
+/** Names reserved by Windows, with or without an extension. */
+const RESERVED_NAMES = /^(con|prn|aux|nul|com[1-9]|lpt[1-9])(\..*)?$/i;
+
+/**
+ * Returns why the name of a directory or file isn't allowed, or `undefined`
+ * if it is. Names may not contain path separators or characters that some
+ * file systems don't allow, may not be `.` or `..` or reserved by Windows and
+ * may not start with a dot, since hidden files aren't loaded.
+ */
+export function validateName(name: string): string | undefined {
+  if (!name) {
+    return "is empty";
+  } else if (name.length > MAX_NAME_LENGTH) {
+    return `is longer than ${MAX_NAME_LENGTH} characters`;
+  } else if (name === "." || name === "..") {
+    return "is reserved";
+  } else if (name.includes("/") || name.includes("\\")) {
+    return "contains a path separator";
+  } else if (INVALID_CHARS.test(name)) {
+    return "contains an invalid character";
+  } else if (hasControlChar(name)) {
+    return "contains a control character";
+  } else if (name.startsWith(".")) {
+    return "starts with a dot";
+  } else if (name.endsWith(".") || name.trim() !== name) {
+    return "ends with a dot or has surrounding spaces";
+  } else if (RESERVED_NAMES.test(name)) {
+    return "is reserved";
+  }
+  return undefined;
+}
+
+/** Throws an {@link InvalidNameError} if the name isn't allowed. */
+export function assertValidName(name: string) {
+  const reason = validateName(name);
+  if (reason) {
+    throw new InvalidNameError({ nodeName: name, reason });
+  }
+}
+
+/**
+ * Returns the name numbered with the first number from 2 that's not taken,
+ * e.g. `"users (2).json"`, inserted before the extensions of a file name so
+ * that it still matches the same patterns, e.g. `"*.db.json"`.
+ */
+export function numberName(
+  name: string,
+  isDir: boolean,
+  taken: (name: string) => boolean,
+) {
+  const dot = isDir ? -1 : name.indexOf(".");
+  const base = dot > 0 ? name.substring(0, dot) : name;
+  const ext = dot > 0 ? name.substring(dot) : "";
+  for (let i = 2; ; i++) {
+    const numbered = `${base} (${i})${ext}`;
+    if (!taken(numbered)) {
+      return numbered;
+    }
+  }
+}
+
+/** Returns `true` if the names are the same, ignoring case. */
+export function sameName(a: string, b: string) {
+  return a.toLowerCase() === b.toLowerCase();
+}
+
+function hasControlChar(name: string) {
+  for (let i = 0; i < name.length; i++) {
+    if (name.charCodeAt(i) < 32) {
+      return true;
+    }
+  }
+  return false;
+}
@@ -0,0 +1,120 @@
+import {
+  type JSONPatchDocument,
+  type JSONPatchOperation,
+  immutableJSONPatch,
+  parseJSONPointer,
+  revertJSONPatch,
+} from "immutable-json-patch";
+// Local
+import { InvalidPatchError } from "@/errors";
+
+/** Names of the JSON Patch operations, see RFC 6902. */
+const OPS = new Set(["add", "copy", "move", "remove", "replace", "test"]);
+
+/**
+ * Returns the document with the JSON Patch operations applied, along with the
+ * operations to revert it. Throws an {@link InvalidPatchError} if one of the
+ * operations can't be applied, e.g. to replace a value which doesn't exist,
+ * instead of applying it anyway as if it was an `add`.
+ */
+export function applyPatch(document: unknown, operations: JSONPatchDocument) {
+  if (!Array.isArray(operations)) {
+    throw new InvalidPatchError({ reason: "expected an array of operations" });
+  }
+  let patched = document;
+  operations.forEach((operation, index) => {
+    const reason = checkOperation(patched, operation);
+    if (reason) {
+      throw new InvalidPatchError({ index, reason });
+    }
+    try {
+      patched = immutableJSONPatch(patched, [operation]);
+    } catch (ex) {
+      // e.g. a failed test operation.
+      throw new InvalidPatchError({
+        index,
+        reason: ex instanceof Error ? ex.message : String(ex),
+      });
+    }
+  });
+  return { patched, inverse: revertJSONPatch(document, operations) };
+}
+
+/** Returns why the operation can't be applied to the document, if it can't. */
+function checkOperation(document: unknown, operation: JSONPatchOperation) {
+  const { op, path } = (operation ?? {}) as Partial<JSONPatchOperation>;
+  if (typeof op !== "string" || !OPS.has(op)) {
+    return `unknown op ${JSON.stringify(op)}`;
+  }
+  const pathKeys = parsePointer(path);
+  if (!pathKeys) {
+    return `invalid path ${JSON.stringify(path)}`;
+  }
+  if (op === "copy" || op === "move") {
+    const { from } = operation as { from?: unknown };
+    const fromKeys = parsePointer(from);
+    if (!fromKeys || !find(document, fromKeys)) {
+      return `from not found ${JSON.stringify(from)}`;
+    }
+    if (
+      op === "move" &&
+      fromKeys.length < pathKeys.length &&
+      fromKeys.every((key, i) => key === pathKeys[i])
+    ) {
+      return `can't move a value into itself ${JSON.stringify(path)}`;
+    }
+  }
+  if (op === "add" || op === "copy" || op === "move") {
+    return canAdd(document, pathKeys)
+      ? undefined
+      : `parent not found ${JSON.stringify(path)}`;
+  }
+  return find(document, pathKeys)
+    ? undefined
+    : `path not found ${JSON.stringify(path)}`;
+}
+
+/** Returns `true` if a value can be added at the path, or replace the root. */
+function canAdd(document: unknown, keys: string[]) {
+  if (keys.length < 1) {
+    return true;
+  }
+  const parent = find(document, keys.slice(0, -1));
+  const key = keys[keys.length - 1]!;
+  if (Array.isArray(parent?.value)) {
+    return key === "-" || (isIndex(key) && Number(key) <= parent.value.length);
+  }
+  return isObject(parent?.value);
+}
+
+/** Returns the value at the path of the document, if there's one. */
+function find(document: unknown, keys: string[]) {
+  let value = document;
+  for (const key of keys) {
+    if (Array.isArray(value)) {
+      if (!isIndex(key) || Number(key) >= value.length) {
+        return undefined;
+      }
+    } else if (!isObject(value) || !Object.hasOwn(value, key)) {
+      return undefined;
+    }
+    value = (value as Record<string, unknown>)[key];
+  }
+  return { value };
+}
+
+function isIndex(key: string) {
+  return /^(0|[1-9][0-9]*)$/.test(key);
+}
+
+function isObject(value: unknown): value is object {
+  return value !== null && typeof value === "object" && !Array.isArray(value);
+}
+
+/** Returns the keys of a JSON Pointer, or `undefined` if it isn't one. */
+function parsePointer(pointer: unknown) {
+  if (typeof pointer !== "string" || (pointer && !pointer.startsWith("/"))) {
+    return undefined;
+  }
+  return parseJSONPointer(pointer);
+}
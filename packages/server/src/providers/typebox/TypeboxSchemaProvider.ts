@@ -1,7 +1,13 @@
 import { TSchema } from "@sinclair/typebox";
 import { TypeCheck, TypeCompiler } from "@sinclair/typebox/compiler";
+import { minimatch } from "minimatch";
 // Local
-import { SchemaDetails, SchemaInfo, SchemaProvider } from "@/types";
+import {
+  SchemaDetails,
+  SchemaError,
+  SchemaInfo,
+  SchemaProvider,
+} from "@/types";
 
 // TODO: Look at kysely-org/kysely table-parser and type utils for betterment...
 
@@ -14,46 +20,68 @@ export class TypeboxSchemaProvider<DB> implements SchemaProvider<DB, TSchema> {
   // get<ST extends keyof DB & string>(name: ST): TSchema | undefined {
   //   return this._byName.get(name);
   // }
+  errors(name: keyof DB & string, value: unknown): SchemaError[] {
+    const compiler = this.compile(name);
+    if (!compiler) {
+      return [];
+    }
+    return [...compiler.Errors(value)].map(({ message, path, value }) => ({
+      message,
+      path,
+      value,
+    }));
+  }
   get(name: keyof DB & string): SchemaInfo<DB, TSchema> | undefined {
     const { _byName } = this;
     return _byName.get(name);
   }
-  set(name: keyof DB & string, details: TDetails) {
+  match(path: string): SchemaInfo<DB, TSchema>[] {
     const { _byName } = this;
+    const matches: SchemaInfo<DB, TSchema>[] = [];
+    for (const info of _byName.values()) {
+      if (info.files?.some((pattern) => minimatch(path, pattern))) {
+        matches.push(info);
+      }
+    }
+    return matches;
+  }
+  set(name: keyof DB & string, details: TDetails) {
+    const { _byName, _compiled } = this;
     _byName.set(name, {
       name,
       ...details,
     });
+    _compiled.delete(name);
   }
   setAll(byName: { [P in keyof DB]?: TDetails }) {
-    const { _byName } = this;
     for (const name in byName) {
       const details = byName[name];
       if (details) {
-        _byName.set(name, {
-          name,
-          ...details,
-        });
+        this.set(name, details);
       }
     }
   }
   validate(name: keyof DB & string, value: unknown) {
+    const compiler = this.compile(name);
+    if (!compiler) {
+      return false;
+    }
+    // CONSIDER: We are losing the type narrowing of Check here...
+    return compiler.Check(value);
+  }
+  /** Gets the compiled schema checker, compiling it on first use. */
+  private compile(name: keyof DB & string) {
     const { _byName, _compiled } = this;
     let compiler = _compiled.get(name);
     if (!compiler) {
       // Compile and store
-      const entry = _byName.get(name);
-      if (!entry) {
-        return false;
-      }
-      const { schema } = entry;
+      const schema = _byName.get(name)?.schema;
       if (!schema) {
-        return false;
+        return undefined;
       }
       compiler = TypeCompiler.Compile(schema);
       _compiled.set(name, compiler);
     }
-    // CONSIDER: We are losing the type narrowing of Check here...
-    return compiler.Check(value);
+    return compiler;
   }
 }
@@ -1,2 +1,5 @@
 export * from "./types";
+export * from "./errors";
 export * from "./Database";
+export * from "./drivers/memory";
+export * from "./http";
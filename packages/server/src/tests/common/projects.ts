@@ -38,6 +38,6 @@ export function withDb<DB = any, R = any>(
   path: string,
   cb: (db: Database<DB>) => R,
 ): R {
-  const db = new Database(Path.join(fixtures_path, path));
+  const db = new Database<DB>(Path.join(fixtures_path, path));
   return cb(db);
 }
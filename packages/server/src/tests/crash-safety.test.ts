@@ -0,0 +1,80 @@
+import Path from "node:path";
+import FS from "node:fs";
+import OS from "node:os";
+import { afterAll, expect, test } from "vitest";
+// Packages
+import { Database } from "@/index";
+// Local
+import { openDb } from "@/tests/common/projects";
+
+const dir = FS.mkdtempSync(Path.join(OS.tmpdir(), "jdex-crash-"));
+const config = Path.join(dir, "db.json");
+const root = Path.join(dir, "data");
+
+afterAll(() => {
+  FS.rmSync(dir, { force: true, recursive: true });
+});
+
+test("Persist ids after each transaction.", async () => {
+  const db = new Database({ config, root: "./data" });
+  await db.open();
+  const { dirId, fileId } = await db.transaction(async (trx) => {
+    const dirId = await trx.addDirectory("dir");
+    const fileId = await trx.addFile("a.json", { data: { a: 1 }, pId: dirId });
+    return { dirId, fileId };
+  });
+  // Open another database before closing the first, as if it crashed.
+  let err: unknown;
+  await openDb(new Database(config), async (db) => {
+    await db.transaction((trx) => {
+      expect(trx.id("dir")).toBe(dirId);
+      expect(trx.id("dir/a.json")).toBe(fileId);
+    });
+  }).catch((ex) => (err = ex));
+  expect(err).toBeUndefined();
+  await db.close();
+  expect(FS.readdirSync(Path.join(root, "dir"))).toEqual(["a.json"]);
+});
+
+test("Skip partially written files when opened.", async () => {
+  FS.writeFileSync(Path.join(root, "dir/b.json"), '{ "b": [1, 2');
+  const tempFile = Path.join(root, "dir/.c.json.abc123def.jdex-tmp");
+  FS.writeFileSync(tempFile, '{ "c"');
+  const db = new Database(config);
+  const { skipped } = await db.open();
+  let err: unknown;
+  try {
+    expect(skipped).toEqual([
+      { path: "dir/b.json", error: expect.any(String) },
+    ]);
+    await db.transaction(async (trx) => {
+      expect(await trx.read("dir/a.json")).toEqual({ a: 1 });
+      expect(trx.id("dir/b.json")).toBeUndefined();
+    });
+  } catch (ex) {
+    err = ex;
+  } finally {
+    await db.close();
+  }
+  expect(err).toBeUndefined();
+  expect(FS.existsSync(tempFile)).toBe(false);
+});
+
+test("Remove the trash of interrupted transactions when opened.", async () => {
+  const trashPath = Path.join(root, ".jdex-trx-abc123def");
+  FS.mkdirSync(Path.join(trashPath, "0"), { recursive: true });
+  FS.writeFileSync(Path.join(trashPath, "0/d.json"), "{}");
+  FS.writeFileSync(Path.join(trashPath, "1"), "{}");
+  let err: unknown;
+  await openDb(new Database(config), async (db) => {
+    await db.transaction((trx) => {
+      const paths: string[] = [];
+      trx.eachNode(null, (node) => {
+        paths.push(node.path);
+      });
+      expect(paths).toEqual(["dir", "dir/a.json"]);
+    });
+  }).catch((ex) => (err = ex));
+  expect(err).toBeUndefined();
+  expect(FS.existsSync(trashPath)).toBe(false);
+});
@@ -0,0 +1,216 @@
+import Path from "node:path";
+import { expect, test } from "vitest";
+import { Type } from "@sinclair/typebox";
+// Packages
+import {
+  Database,
+  DatabaseClosedError,
+  IndexNotFoundError,
+  InvalidContentError,
+  InvalidMoveError,
+  InvalidPatchError,
+  InvalidQueryError,
+  NameConflictError,
+  NodeNotFoundError,
+  NotADirectoryError,
+  NotAFileError,
+  SchemaMismatchError,
+  SchemaNotFoundError,
+} from "@/index";
+import { errorStatus, toErrorData } from "@/http/errors";
+// Local
+import { fixtures_path, openDb } from "@/tests/common/projects";
+
+function createDb() {
+  return new Database({
+    root: Path.join(fixtures_path, "not-a-project"),
+    type: "memory",
+    logLevel: "silent",
+    memory: { files: { "a.json": { a: 1 }, "dir/": null } },
+  });
+}
+
+test("Keep processing queued transactions after one fails.", async () => {
+  await openDb(createDb(), async (db) => {
+    const results = await Promise.allSettled([
+      db.transaction((trx) => trx.write(trx.id("a.json")!, { a: 2 })),
+      db.transaction(() => {
+        throw new Error("Testing failure");
+      }),
+      db.transaction((trx) => trx.read("a.json")),
+    ]);
+    expect(results.map((it) => it.status)).toEqual([
+      "fulfilled",
+      "rejected",
+      "fulfilled",
+    ]);
+    expect((results[2] as PromiseFulfilledResult<unknown>).value).toEqual({
+      a: 2,
+    });
+  });
+});
+
+test("Reject transactions when the database is closed.", async () => {
+  const db = createDb();
+  await expect(db.transaction(() => 1)).rejects.toThrow(DatabaseClosedError);
+  await db.open();
+  const running = db.transaction(async () => {
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    return 1;
+  });
+  const queued = db.transaction(() => 2);
+  await db.close();
+  expect(await running).toBe(1);
+  await expect(queued).rejects.toThrow(DatabaseClosedError);
+  await expect(db.transaction(() => 3)).rejects.toThrow(DatabaseClosedError);
+});
+
+test("Throw typed errors with structured fields.", async () => {
+  await openDb(createDb(), async (db) => {
+    const notFound = await db
+      .transaction((trx) => trx.rename("f-missing", "b.json"))
+      .catch((ex) => ex);
+    expect(notFound).toBeInstanceOf(NodeNotFoundError);
+    expect(notFound.id).toBe("f-missing");
+    expect(errorStatus(notFound)).toBe(404);
+
+    const dirId = await db.transaction((trx) => trx.id("dir")!);
+    const notAFile = await db
+      .transaction((trx) => trx.write(dirId, {}))
+      .catch((ex) => ex);
+    expect(notAFile).toBeInstanceOf(NotAFileError);
+    expect(notAFile.id).toBe(dirId);
+
+    const fileId = await db.transaction((trx) => trx.id("a.json")!);
+    const conflict = await db
+      .transaction((trx) => trx.addFile("a.json", { data: {} }))
+      .catch((ex) => ex);
+    expect(conflict).toBeInstanceOf(NameConflictError);
+    expect(toErrorData(conflict)).toEqual({
+      name: "NameConflictError",
+      message: `Name already exists - "a.json"`,
+      path: "a.json",
+      existingId: fileId,
+    });
+    expect(errorStatus(conflict)).toBe(409);
+
+    const noContent = await db
+      .transaction((trx) => trx.addFile("b.json", { data: undefined }))
+      .catch((ex) => ex);
+    expect(noContent).toBeInstanceOf(InvalidContentError);
+    expect(noContent.path).toBe("b.json");
+    expect(errorStatus(noContent)).toBe(422);
+    await expect(
+      db.transaction((trx) => trx.write(fileId, undefined)),
+    ).rejects.toThrow(`Invalid content, expected a JSON value - "a.json"`);
+  });
+});
+
+test("Refuse to move into a file or a directory into itself.", async () => {
+  await openDb(createDb(), async (db) => {
+    const { dirId, fileId, subId } = await db.transaction(async (trx) => ({
+      dirId: trx.id("dir")!,
+      fileId: trx.id("a.json")!,
+      subId: await trx.addDirectory("sub", trx.id("dir")),
+    }));
+    for (const toId of [dirId, subId]) {
+      const invalid = await db
+        .transaction((trx) => trx.move(dirId, toId))
+        .catch((ex) => ex);
+      expect(invalid).toBeInstanceOf(InvalidMoveError);
+      expect(invalid).toMatchObject({ id: dirId, toId });
+      expect(errorStatus(invalid)).toBe(422);
+    }
+    const notADir = await db
+      .transaction((trx) => trx.move(dirId, fileId))
+      .catch((ex) => ex);
+    expect(notADir).toBeInstanceOf(NotADirectoryError);
+    expect(notADir.id).toBe(fileId);
+    await expect(
+      db.transaction((trx) => trx.addFile("b.json", { data: 1, pId: fileId })),
+    ).rejects.toThrow(NotADirectoryError);
+    await expect(
+      db.transaction((trx) => [trx.path(dirId), trx.path(subId)]),
+    ).resolves.toEqual(["dir", "dir/sub"]);
+  });
+});
+
+test("Refuse JSON Patch operations which can't be applied.", async () => {
+  await openDb(createDb(), async (db) => {
+    const fileId = await db.transaction((trx) => trx.id("a.json")!);
+    const patch = (operations: any[]) =>
+      db.transaction((trx) => trx.patch(fileId, operations)).catch((ex) => ex);
+    const missing = await patch([
+      { op: "add", path: "/b", value: [1] },
+      { op: "replace", path: "/nope", value: 1 },
+    ]);
+    expect(missing).toBeInstanceOf(InvalidPatchError);
+    expect(missing).toMatchObject({
+      index: 1,
+      reason: 'path not found "/nope"',
+    });
+    expect(errorStatus(missing)).toBe(422);
+    for (const [operation, reason] of [
+      [{ op: "remove", path: "/nope" }, 'path not found "/nope"'],
+      [{ op: "remove", path: "/toString" }, 'path not found "/toString"'],
+      [{ op: "add", path: "/x/y", value: 1 }, 'parent not found "/x/y"'],
+      [{ op: "move", from: "/nope", path: "/b" }, 'from not found "/nope"'],
+      [{ op: "nope", path: "/a" }, 'unknown op "nope"'],
+      [{ op: "test", path: "/a", value: 2 }, expect.stringMatching(/^Test/)],
+    ] as const) {
+      expect(await patch([operation])).toMatchObject({ index: 0, reason });
+    }
+    // Valid operations still apply, with a matching inverse.
+    const result = await db.transaction((trx) =>
+      trx.patch(fileId, [
+        { op: "test", path: "/a", value: 1 },
+        { op: "replace", path: "/a", value: 2 },
+      ]),
+    );
+    expect(result.inverse).toEqual([{ op: "replace", path: "/a", value: 1 }]);
+    await expect(db.transaction((trx) => trx.read("a.json"))).resolves.toEqual({
+      a: 2,
+    });
+  });
+});
+
+test("Throw typed errors for unknown indexes, schemas and queries.", async () => {
+  const db = createDb() as Database<any>;
+  db.schemas.set("yada", {
+    files: ["**/*.yada.json"],
+    schema: Type.Object({ yada: Type.Number() }),
+  });
+  await openDb(db, async (db) => {
+    const noIndex = await db
+      .transaction((trx) => trx.lookup("nope", 1))
+      .catch((ex) => ex);
+    expect(noIndex).toBeInstanceOf(IndexNotFoundError);
+    expect(noIndex.index).toBe("nope");
+    expect(errorStatus(noIndex)).toBe(404);
+
+    const noSchema = await db
+      .transaction((trx) => trx.model("nope"))
+      .catch((ex) => ex);
+    expect(noSchema).toBeInstanceOf(SchemaNotFoundError);
+    expect(noSchema.schema).toBe("nope");
+    expect(errorStatus(noSchema)).toBe(404);
+
+    const mismatch = await db
+      .transaction((trx) =>
+        trx.model("yada").addFile("b.json", { data: { yada: 1 } }),
+      )
+      .catch((ex) => ex);
+    expect(mismatch).toBeInstanceOf(SchemaMismatchError);
+    expect(mismatch).toMatchObject({ path: "b.json", schema: "yada" });
+    expect(errorStatus(mismatch)).toBe(422);
+
+    for (const expression of ["a[", "nope(a)", "abs(@)"]) {
+      const invalid = await db
+        .transaction((trx) => trx.query("*.json", expression))
+        .catch((ex) => ex);
+      expect(invalid).toBeInstanceOf(InvalidQueryError);
+      expect(invalid.expression).toBe(expression);
+      expect(errorStatus(invalid)).toBe(400);
+    }
+  });
+});
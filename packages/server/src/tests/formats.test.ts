@@ -0,0 +1,108 @@
+import Path from "node:path";
+import FS from "node:fs";
+import OS from "node:os";
+import { afterAll, expect, test } from "vitest";
+// Packages
+import { Database } from "@/index";
+// Local
+import { openDb } from "@/tests/common/projects";
+
+const dir = FS.mkdtempSync(Path.join(OS.tmpdir(), "jdex-formats-"));
+const root = Path.join(dir, "data");
+
+const settingsText = `{
+  // The app name.
+  "name": "app",
+  "ports": [
+    8080, // http
+    8443, // https
+  ],
+  /* Flags */
+  "debug": false,
+}
+`;
+
+FS.mkdirSync(root);
+FS.writeFileSync(Path.join(root, "settings.jsonc"), settingsText);
+FS.writeFileSync(
+  Path.join(root, "theme.json5"),
+  `// Colors\n{ dark: true, accent: 'blue', }\n`,
+);
+FS.writeFileSync(Path.join(root, "plain.json"), `{ "a": 1 }`);
+
+afterAll(() => {
+  FS.rmSync(dir, { force: true, recursive: true });
+});
+
+function createDb(extensions?: string[]) {
+  return new Database({ root, fs: { extensions, ids: false } });
+}
+
+test("Load only JSON files by default.", async () => {
+  await openDb(createDb(), async (db) => {
+    await db.transaction((trx) => {
+      expect(trx.id("plain.json")).toBeDefined();
+      expect(trx.id("settings.jsonc")).toBeUndefined();
+      expect(trx.id("theme.json5")).toBeUndefined();
+    });
+  });
+});
+
+test("Parse JSONC and JSON5 files.", async () => {
+  await openDb(createDb([".json", ".jsonc", ".json5"]), async (db) => {
+    await db.transaction(async (trx) => {
+      expect(await trx.read("settings.jsonc")).toEqual({
+        name: "app",
+        ports: [8080, 8443],
+        debug: false,
+      });
+      expect(await trx.read("theme.json5")).toEqual({
+        dark: true,
+        accent: "blue",
+      });
+      expect(await trx.read("plain.json")).toEqual({ a: 1 });
+    });
+  });
+});
+
+test("Keep comments and formatting when patching JSONC.", async () => {
+  await openDb(createDb([".jsonc"]), async (db) => {
+    await db.transaction(async (trx) => {
+      await trx.patch(trx.id("settings.jsonc")!, [
+        { op: "replace", path: "/debug", value: true },
+        { op: "add", path: "/ports/-", value: 9000 },
+        { op: "add", path: "/title", value: "App" },
+      ]);
+    });
+  });
+  const text = FS.readFileSync(Path.join(root, "settings.jsonc"), "utf-8");
+  expect(text).toContain("// The app name.");
+  expect(text).toContain("8080, // http");
+  expect(text).toContain("/* Flags */");
+  expect(text).toContain(`"debug": true`);
+  await openDb(createDb([".jsonc"]), async (db) => {
+    await db.transaction(async (trx) => {
+      expect(await trx.read("settings.jsonc")).toEqual({
+        name: "app",
+        ports: [8080, 8443, 9000],
+        debug: true,
+        title: "App",
+      });
+    });
+  });
+});
+
+test("Write new JSON5 files and rewrite JSON5 that's not JSONC.", async () => {
+  await openDb(createDb([".json5"]), async (db) => {
+    await db.transaction(async (trx) => {
+      await trx.addFile("new.json5", { data: { b: [1, 2] } });
+      await trx.write(trx.id("theme.json5")!, { dark: false });
+    });
+  });
+  await openDb(createDb([".json5"]), async (db) => {
+    await db.transaction(async (trx) => {
+      expect(await trx.read("new.json5")).toEqual({ b: [1, 2] });
+      expect(await trx.read("theme.json5")).toEqual({ dark: false });
+    });
+  });
+});
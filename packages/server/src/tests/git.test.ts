@@ -0,0 +1,109 @@
+import Path from "node:path";
+import FS from "node:fs";
+import OS from "node:os";
+import { execFileSync } from "node:child_process";
+import { afterAll, expect, test } from "vitest";
+// Packages
+import { Database } from "@/index";
+// Local
+import { openDb } from "@/tests/common/projects";
+
+const dir = FS.mkdtempSync(Path.join(OS.tmpdir(), "jdex-git-"));
+const root = Path.join(dir, "data");
+
+/** Content large enough for git to detect renames of changed files. */
+const users = ["Ada", "Grace", "Linus", "Margaret", "Ken"].map((name) => ({
+  name,
+}));
+
+const git = (...args: string[]) =>
+  execFileSync("git", args, { cwd: dir, encoding: "utf8" }).trim();
+
+git("init", "--quiet");
+git("config", "user.name", "Test");
+git("config", "user.email", "test@example.com");
+
+afterAll(() => {
+  FS.rmSync(dir, { force: true, recursive: true });
+});
+
+test("Commit transactions and read the history of a file.", async () => {
+  let err: unknown;
+  await openDb(
+    new Database({ root, git: { autoCommit: true } }),
+    async (db) => {
+      const id = await db.transaction((trx) =>
+        trx.addFile("a.json", { data: { a: 1, users } }),
+      );
+      await db.transaction(async (trx) => {
+        await trx.write(id, { a: 2, users });
+        await trx.rename(id, "b.json");
+      });
+      await db.close();
+
+      expect(git("log", "--format=%s")).toBe(
+        ["Update a.json, b.json", "Update a.json"].join("\n"),
+      );
+      expect(git("log", "-1", "--format=%b")).toBe(
+        ["- changed a.json", "- renamed a.json -> b.json"].join("\n"),
+      );
+
+      await db.open();
+      const bId = await db.transaction((trx) => trx.id("b.json")!);
+      const revisions = await db.revisions(bId);
+      expect(revisions.map((it) => it.path)).toEqual(["b.json", "a.json"]);
+      expect(revisions[1]?.author).toBe("Test");
+      expect(await db.readRevision("a.json", revisions[1]!.hash)).toEqual({
+        a: 1,
+        users,
+      });
+      expect(await db.readRevision("b.json", revisions[0]!.hash)).toEqual({
+        a: 2,
+        users,
+      });
+      expect(await db.readRevision("a.json", "HEAD")).toBeUndefined();
+    },
+  ).catch((ex) => (err = ex));
+  expect(err).toBeUndefined();
+});
+
+test("Batch transactions into one commit.", async () => {
+  let err: unknown;
+  const count = Number(git("rev-list", "--count", "HEAD"));
+  await openDb(
+    new Database({ root, git: { autoCommit: true, batch: 1000 } }),
+    async (db) => {
+      await db.transaction((trx) => trx.addFile("c.json", { data: 1 }));
+      await db.transaction((trx) => trx.addDirectory("d"));
+      await db.close();
+      expect(Number(git("rev-list", "--count", "HEAD"))).toBe(count + 1);
+      expect(git("log", "-1", "--format=%s")).toBe("Update c.json, d");
+    },
+  ).catch((ex) => (err = ex));
+  expect(err).toBeUndefined();
+});
+
+test("Commit only the paths changed by transactions.", async () => {
+  let err: unknown;
+  await openDb(
+    new Database({ root, git: { autoCommit: true } }),
+    async (db) => {
+      FS.writeFileSync(Path.join(root, "other.txt"), "edited by hand");
+      const dirId = await db.transaction((trx) => trx.addDirectory("e"));
+      await db.transaction(async (trx) => {
+        await trx.move(trx.id("c.json")!, dirId);
+        await trx.remove(trx.id("b.json")!);
+        // Added and removed before it's committed.
+        await trx.remove(await trx.addFile("f.json", { data: 1 }));
+      });
+      await db.close();
+      expect(
+        git("show", "--name-status", "--no-renames", "--format=", "HEAD"),
+      ).toBe(
+        ["D\tdata/b.json", "D\tdata/c.json", "A\tdata/e/c.json"].join("\n"),
+      );
+      expect(git("status", "--porcelain")).toBe("?? data/other.txt");
+    },
+  ).catch((ex) => (err = ex));
+  expect(err).toBeUndefined();
+});
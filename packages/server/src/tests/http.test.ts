@@ -0,0 +1,115 @@
+import Path from "node:path";
+import FS from "node:fs";
+import Http from "node:http";
+import type { AddressInfo } from "node:net";
+import OS from "node:os";
+import { afterAll, beforeAll, expect, test } from "vitest";
+// Packages
+import { Database, createRequestHandler } from "@/index";
+
+const root = FS.mkdtempSync(Path.join(OS.tmpdir(), "jdex-http-"));
+const db = new Database({ root });
+const handler = createRequestHandler(db, { prefix: "/api" });
+const server = Http.createServer((req, res) => handler(req, res));
+let baseUrl = "";
+
+beforeAll(async () => {
+  await db.open();
+  await new Promise<void>((resolve) => server.listen(0, resolve));
+  baseUrl = `http://localhost:${(server.address() as AddressInfo).port}/api`;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+  await db.close();
+  FS.rmSync(root, { force: true, recursive: true });
+});
+
+/** Sends a JSON request and returns the response status and JSON body. */
+async function request(method: string, path: string, body?: unknown) {
+  const res = await fetch(baseUrl + path, {
+    method,
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  const text = await res.text();
+  return { status: res.status, body: text ? JSON.parse(text) : undefined };
+}
+
+test("Add, read, patch, move and remove files over HTTP.", async () => {
+  const dir = await request("POST", "/directories", { name: "dir" });
+  const dirId = dir.body.id;
+  const file = await request("POST", "/files", {
+    name: "a.json",
+    data: { a: 1 },
+  });
+  const { id } = file.body;
+  expect((await request("PUT", `/files/${id}`, { a: 2 })).status).toBe(204);
+  const patched = await request("PATCH", `/files/${id}`, [
+    { op: "replace", path: "/a", value: 3 },
+  ]);
+  expect(patched.body.inverse).toEqual([
+    { op: "replace", path: "/a", value: 2 },
+  ]);
+  expect((await request("GET", `/files/${id}`)).body).toEqual({ a: 3 });
+  const moved = await request("POST", `/nodes/${id}/move`, { toId: dirId });
+  expect(moved.body).toEqual({ path: "dir/a.json" });
+  const found = await request("GET", "/id?path=dir/a.json");
+  expect(found.body).toEqual({ id });
+  const nodes = await request("GET", "/nodes");
+  expect(nodes.body.map((it: any) => it.path)).toEqual(["dir", "dir/a.json"]);
+  const removed = await request("DELETE", `/nodes/${dirId}`);
+  expect(removed.body).toEqual({ removed: true });
+  expect((await request("GET", `/files/${id}`)).status).toBe(404);
+  expect((await request("GET", "/unknown")).status).toBe(404);
+});
+
+test("Call methods in remote transactions over HTTP.", async () => {
+  const begun = await request("POST", "/transactions");
+  const { trx } = begun.body;
+  const call = (method: string, ...args: unknown[]) =>
+    request("POST", "/call", { method, args, trx });
+  const { result: id } = (await call("addFile", "b.json", { data: 1 })).body;
+  expect((await call("id", "b.json")).body).toEqual({ result: id });
+  expect((await request("POST", `/transactions/${trx}/rollback`)).status).toBe(
+    204,
+  );
+  const other = await request("POST", "/call", {
+    method: "id",
+    args: ["b.json"],
+  });
+  expect(other.body).toEqual({});
+  expect((await call("id", "b.json")).status).toBe(404);
+
+  const { trx: trx2 } = (await request("POST", "/transactions")).body;
+  await request("POST", "/call", {
+    method: "addFile",
+    args: ["c.json", { data: 2 }],
+    trx: trx2,
+  });
+  await request("POST", `/transactions/${trx2}/commit`);
+  const read = await request("POST", "/call", {
+    method: "read",
+    args: ["c.json"],
+  });
+  expect(read.body).toEqual({ result: 2 });
+});
+
+test("Respond to malformed requests with a 400 status.", async () => {
+  const malformed = await request("GET", "/files/%E0%A4%A");
+  expect(malformed.status).toBe(400);
+  expect(malformed.body.error).toEqual({
+    name: "HttpError",
+    message: "Malformed path",
+  });
+  const noData = await request("POST", "/files", { name: "d.json" });
+  expect(noData.status).toBe(400);
+  const { id } = (await request("POST", "/files", { name: "d.json", data: 1 }))
+    .body;
+  expect((await request("PUT", `/files/${id}`)).status).toBe(400);
+  expect((await request("GET", `/files/${id}`)).body).toBe(1);
+  for (const method of ["constructor", "commit", "toString"]) {
+    const call = await request("POST", "/call", { method, args: [] });
+    expect(call.status).toBe(400);
+    expect(call.body.error.message).toBe(`Unknown method - "${method}"`);
+  }
+});
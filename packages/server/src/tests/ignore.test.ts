@@ -0,0 +1,150 @@
+import Path from "node:path";
+import FS from "node:fs";
+import OS from "node:os";
+import { afterAll, expect, test } from "vitest";
+// Packages
+import { Database, PathIgnoredError } from "@/index";
+import { errorStatus } from "@/http/errors";
+// Local
+import { openDb } from "@/tests/common/projects";
+
+const dir = FS.mkdtempSync(Path.join(OS.tmpdir(), "jdex-ignore-"));
+const root = Path.join(dir, "data");
+
+/** Writes the files by path relative to the temp directory. */
+function writeFiles(files: Record<string, string>) {
+  for (const [path, text] of Object.entries(files)) {
+    const fullPath = Path.join(dir, path);
+    FS.mkdirSync(Path.dirname(fullPath), { recursive: true });
+    FS.writeFileSync(fullPath, text);
+  }
+}
+
+writeFiles({
+  ".gitignore": "data/cache/\n",
+  "data/a.json": "{}",
+  "data/node_modules/pkg/package.json": "{}",
+  "data/build/out.json": "{}",
+  "data/cache/c.json": "{}",
+  "data/docs/.jdexignore": "*.draft.json\n!keep.draft.json\n",
+  "data/docs/x.json": "{}",
+  "data/docs/x.draft.json": "{}",
+  "data/docs/keep.draft.json": "{}",
+});
+FS.mkdirSync(Path.join(dir, ".git"));
+
+afterAll(() => {
+  FS.rmSync(dir, { force: true, recursive: true });
+});
+
+/** Returns the paths of all nodes in the database. */
+async function listPaths(db: Database<any>) {
+  return db.transaction((trx) => {
+    const paths: string[] = [];
+    trx.eachNode(null, (node) => {
+      paths.push(node.path);
+    });
+    return paths.sort();
+  });
+}
+
+/** Returns `true` once the condition is true or `false` after 2 seconds. */
+async function waitFor(condition: () => Promise<boolean>) {
+  for (let i = 0; i < 100; i++) {
+    if (await condition()) return true;
+    await new Promise((resolve) => setTimeout(resolve, 20));
+  }
+  return false;
+}
+
+test("Ignore paths matched by the config and .jdexignore files.", async () => {
+  const db = new Database({
+    root,
+    fs: { ids: false, ignore: ["node_modules/", "build/"] },
+  });
+  await openDb(db, async (db) => {
+    expect(await listPaths(db)).toEqual([
+      "a.json",
+      "cache",
+      "cache/c.json",
+      "docs",
+      "docs/keep.draft.json",
+      "docs/x.json",
+    ]);
+  });
+});
+
+test("Ignore node_modules by default and .gitignore optionally.", async () => {
+  const db = new Database({ root, fs: { ids: false, gitignore: true } });
+  await openDb(db, async (db) => {
+    expect(await listPaths(db)).toEqual([
+      "a.json",
+      "build",
+      "build/out.json",
+      "docs",
+      "docs/keep.draft.json",
+      "docs/x.json",
+    ]);
+  });
+});
+
+test("Refuse to add, move or rename to ignored paths.", async () => {
+  const db = new Database({ root, fs: { ids: false, ignore: ["build/"] } });
+  await openDb(db, async (db) => {
+    const ignored = await db
+      .transaction((trx) => trx.addDirectory("build"))
+      .catch((ex) => ex);
+    expect(ignored).toBeInstanceOf(PathIgnoredError);
+    expect(ignored.message).toBe(`Path is ignored - "build"`);
+    expect(ignored.path).toBe("build");
+    expect(errorStatus(ignored)).toBe(422);
+    await expect(
+      db.transaction((trx) =>
+        trx.addFile("y.draft.json", { data: {}, pId: trx.id("docs") }),
+      ),
+    ).rejects.toThrow(`Path is ignored - "docs/y.draft.json"`);
+    await expect(
+      db.transaction((trx) => trx.rename(trx.id("a.json")!, "a.draft.json")),
+    ).resolves.toBe("a.draft.json");
+    await expect(
+      db.transaction((trx) =>
+        trx.move(trx.id("a.draft.json")!, trx.id("docs")!),
+      ),
+    ).rejects.toThrow(`Path is ignored - "docs/a.draft.json"`);
+    await db.transaction((trx) =>
+      trx.rename(trx.id("a.draft.json")!, "a.json"),
+    );
+  });
+});
+
+test("Ignore watched changes to ignored paths.", async () => {
+  const db = new Database({
+    root,
+    fs: { ids: false, ignore: ["build/"], watch: { debounce: 10 } },
+  });
+  const changes: string[] = [];
+  db.subscribe((events) => {
+    for (const { external, type, node } of events) {
+      if (external) changes.push(`${type} ${node.path}`);
+    }
+  });
+  await openDb(db, async (db) => {
+    writeFiles({ "data/build/new.json": "{}", "data/docs/y.draft.json": "{}" });
+    writeFiles({ "data/b.json": "{}" });
+    expect(
+      await waitFor(() => db.transaction((trx) => !!trx.id("b.json"))),
+    ).toBe(true);
+    // Changing an ignore file changes what's ignored.
+    writeFiles({ "data/docs/.jdexignore": "" });
+    expect(
+      await waitFor(() =>
+        db.transaction((trx) => !!trx.id("docs/x.draft.json")),
+      ),
+    ).toBe(true);
+  });
+  expect(changes).toEqual([
+    "added b.json",
+    "added docs/x.draft.json",
+    "added docs/y.draft.json",
+  ]);
+});
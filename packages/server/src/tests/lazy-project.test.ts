@@ -0,0 +1,109 @@
+import Path from "node:path";
+import FS from "node:fs";
+import OS from "node:os";
+import { afterAll, expect, test } from "vitest";
+import { fixtures_path, openDb } from "@/tests/common/projects";
+import { Database, UniqueIndexError } from "@/index";
+import { DatabaseUnitTests } from "../Database.tests";
+
+const dir = FS.mkdtempSync(Path.join(OS.tmpdir(), "jdex-lazy-"));
+const root = Path.join(dir, "data");
+
+FS.cpSync(Path.join(fixtures_path, "simple-project/data"), root, {
+  recursive: true,
+});
+
+afterAll(() => {
+  FS.rmSync(dir, { force: true, recursive: true });
+});
+
+// A cache too small for any file, so that content is loaded on each access.
+DatabaseUnitTests(new Database({ root, fs: { lazy: { cacheSize: 1 } } }));
+
+test("Load content lazily and keep changed content until written.", async () => {
+  let err: unknown;
+  const db = new Database({ root, fs: { lazy: { cacheSize: 100 } } });
+  await openDb(db, async (db) => {
+    const { aId, bId } = await db.transaction(async (trx) => {
+      const dirId = await trx.addDirectory("lazy");
+      const aId = await trx.addFile("a.json", {
+        data: { text: "a".repeat(80) },
+        pId: dirId,
+      });
+      const bId = await trx.addFile("b.json", {
+        data: { text: "b".repeat(80) },
+        pId: dirId,
+      });
+      return { aId, bId };
+    });
+    // Loading b unloads a, which is read from disk again.
+    FS.writeFileSync(Path.join(root, "lazy/a.json"), '{ "text": "disk" }');
+    await db.transaction(async (trx) => {
+      expect(await trx.get(bId)).toEqual({ text: "b".repeat(80) });
+      expect(await trx.get(aId)).toEqual({ text: "disk" });
+    });
+    // Content changed in a transaction stays loaded until written, even
+    // after it's directory is renamed.
+    await db.transaction(async (trx) => {
+      await trx.write(aId, { text: "changed" });
+      await trx.rename(trx.id("lazy")!, "renamed");
+      expect(await trx.get(bId)).toEqual({ text: "b".repeat(80) });
+      expect(await trx.get(aId)).toEqual({ text: "changed" });
+      expect(await trx.query("renamed/*.json", "text")).toEqual([
+        { node: expect.objectContaining({ id: aId }), result: "changed" },
+        {
+          node: expect.objectContaining({ id: bId }),
+          result: "b".repeat(80),
+        },
+      ]);
+    });
+    await db.transaction(async (trx) => {
+      expect(await trx.read("renamed/a.json")).toEqual({ text: "changed" });
+      await trx.remove(trx.id("renamed")!);
+    });
+  }).catch((ex) => (err = ex));
+  expect(err).toBeUndefined();
+});
+
+test("Keep the indexed values of unloaded files when rolled back.", async () => {
+  let err: unknown;
+  const db = new Database({ root, fs: { lazy: { cacheSize: 1 } } });
+  db.indexes.set("lazyName", {
+    files: "indexed/*.json",
+    field: "name",
+    unique: true,
+  });
+  await openDb(db, async (db) => {
+    const aId = await db.transaction(async (trx) => {
+      const dirId = await trx.addDirectory("indexed");
+      return trx.addFile("a.json", { data: { name: "a" }, pId: dirId });
+    });
+    // The content of a is unloaded once written, since it's over cacheSize.
+    await db
+      .transaction(async (trx) => {
+        await trx.remove(trx.id("indexed")!);
+        expect(trx.lookup("lazyName", "a")).toEqual([]);
+        throw new Error("Testing rollback");
+      })
+      .catch(() => undefined);
+    await db
+      .transaction(async (trx) => {
+        expect(trx.lookup("lazyName", "a")).toEqual([aId]);
+        await trx.rename(trx.id("indexed")!, "moved");
+        expect(trx.lookup("lazyName", "a")).toEqual([]);
+        throw new Error("Testing rollback");
+      })
+      .catch(() => undefined);
+    const duplicate = await db
+      .transaction((trx) =>
+        trx.addFile("b.json", { data: { name: "a" }, pId: trx.id("indexed") }),
+      )
+      .catch((ex) => ex);
+    expect(duplicate).toBeInstanceOf(UniqueIndexError);
+    await db.transaction((trx) => {
+      expect(trx.lookup("lazyName", "a")).toEqual([aId]);
+      return trx.remove(trx.id("indexed")!);
+    });
+  }).catch((ex) => (err = ex));
+  expect(err).toBeUndefined();
+});
@@ -0,0 +1,99 @@
+import Path from "node:path";
+import FS from "node:fs";
+import OS from "node:os";
+import { afterAll, expect, test } from "vitest";
+// Packages
+import {
+  Database,
+  NodeNotFoundError,
+  type ILogger,
+  type LogLevel,
+} from "@/index";
+// Local
+import { openDb } from "@/tests/common/projects";
+
+const dir = FS.mkdtempSync(Path.join(OS.tmpdir(), "jdex-logger-"));
+const root = Path.join(dir, "data");
+
+afterAll(() => {
+  FS.rmSync(dir, { force: true, recursive: true });
+});
+
+/** Returns a logger which records the level and message of each entry. */
+function createLogger() {
+  const entries: Array<[string, string, ...unknown[]]> = [];
+  const logger: ILogger = {
+    debug: (message, ...params) => entries.push(["debug", message, ...params]),
+    error: (message, ...params) => entries.push(["error", message, ...params]),
+    log: (message, ...params) => entries.push(["log", message, ...params]),
+    warn: (message, ...params) => entries.push(["warn", message, ...params]),
+  };
+  return { entries, logger };
+}
+
+function createDb(logger: ILogger, logLevel?: LogLevel) {
+  return new Database({
+    root,
+    logger,
+    logLevel,
+  });
+}
+
+test("Log driver operations at the debug level.", async () => {
+  const { entries, logger } = createLogger();
+  await openDb(createDb(logger, "debug"), async (db) => {
+    await db.transaction((trx) => trx.addFile("a.json", { data: { a: 1 } }));
+  });
+  const messages = entries.map(([level, message]) => `${level}: ${message}`);
+  expect(messages).toContain(`debug: Opened [object FsDriver("${root}")].`);
+  expect(messages).toContain(`debug: Applied "write" operation.`);
+  const write = entries.find(([, message]) => message.includes("write"));
+  expect(write?.[2]).toEqual({
+    type: "write",
+    path: Path.join(root, "a.json"),
+  });
+});
+
+test("Log entries at or above the log level only.", async () => {
+  const { entries, logger } = createLogger();
+  await openDb(createDb(logger), async (db) => {
+    await db.printDirectory();
+  });
+  expect(entries.some(([level]) => level === "debug")).toBe(false);
+  expect(entries.some(([level]) => level === "log")).toBe(true);
+
+  entries.length = 0;
+  await openDb(createDb(logger, "silent"), async (db) => {
+    await db.printDirectory();
+  });
+  expect(entries).toEqual([]);
+});
+
+test("Log transaction failures with the logger.", async () => {
+  const { entries, logger } = createLogger();
+  await openDb(createDb(logger), async (db) => {
+    await expect(
+      db.transaction(() => {
+        throw new Error("Testing failure");
+      }),
+    ).rejects.toThrow("Testing failure");
+  });
+  expect(entries.map(([level, message]) => `${level}: ${message}`)).toEqual([
+    "error: Transaction failed.",
+  ]);
+});
+
+test("Log expected transaction failures at the debug level.", async () => {
+  const { entries, logger } = createLogger();
+  await openDb(createDb(logger, "debug"), async (db) => {
+    await expect(
+      db.transaction((trx) => trx.rename("f-missing", "b.json")),
+    ).rejects.toThrow(NodeNotFoundError);
+  });
+  const failures = entries.filter(([, message]) =>
+    message.startsWith("Transaction failed"),
+  );
+  expect(failures.map(([level, message]) => `${level}: ${message}`)).toEqual([
+    "debug: Transaction failed.",
+  ]);
+});
@@ -0,0 +1,39 @@
+import Path from "node:path";
+import { expect, test } from "vitest";
+import { fixtures_path, openDb } from "@/tests/common/projects";
+import { Database, type MemoryDriver } from "@/index";
+import { DatabaseUnitTests } from "../Database.tests";
+
+DatabaseUnitTests(
+  new Database({
+    root: Path.join(fixtures_path, "simple-project/data"),
+    type: "memory",
+  }),
+);
+
+test("Seed a memory database and dump it's files.", async () => {
+  const files = {
+    "a/": null,
+    "a/b/c.json": { c: 1 },
+    "d.json": [1, 2],
+  };
+  const db = new Database({
+    root: Path.join(fixtures_path, "not-a-project"),
+    type: "memory",
+    memory: { files },
+  });
+  let err: unknown;
+  await openDb(db, async (db) => {
+    await db.transaction(async (trx) => {
+      expect(await trx.read("a/b/c.json")).toEqual({ c: 1 });
+      await trx.write(trx.id("d.json")!, [3]);
+    });
+    expect((db.driver as MemoryDriver).dump()).toEqual({
+      "a/": null,
+      "a/b/": null,
+      "a/b/c.json": { c: 1 },
+      "d.json": [3],
+    });
+  }).catch((ex) => (err = ex));
+  expect(err).toBeUndefined();
+});
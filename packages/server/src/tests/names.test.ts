@@ -0,0 +1,127 @@
+import Path from "node:path";
+import { expect, test } from "vitest";
+// Packages
+import { Database, InvalidNameError, NameConflictError } from "@/index";
+import { errorStatus } from "@/http/errors";
+import { numberName, validateName } from "@/names";
+// Local
+import { fixtures_path, openDb } from "@/tests/common/projects";
+
+function createDb() {
+  return new Database({
+    root: Path.join(fixtures_path, "not-a-project"),
+    type: "memory",
+    logLevel: "silent",
+    memory: {
+      files: { "a.json": { a: 1 }, "dir/": null, "dir/b.json": { b: 1 } },
+    },
+  });
+}
+
+test("Validate names.", () => {
+  expect(validateName("users.json")).toBeUndefined();
+  expect(validateName("My Users (2).json")).toBeUndefined();
+  expect(validateName("")).toBe("is empty");
+  expect(validateName("..")).toBe("is reserved");
+  expect(validateName("../x.json")).toBe("contains a path separator");
+  expect(validateName("a\\b.json")).toBe("contains a path separator");
+  expect(validateName("a?.json")).toBe("contains an invalid character");
+  expect(validateName("a\nb.json")).toBe("contains a control character");
+  expect(validateName(".hidden.json")).toBe("starts with a dot");
+  expect(validateName("a.")).toBe("ends with a dot or has surrounding spaces");
+  expect(validateName("CON.json")).toBe("is reserved");
+  expect(validateName("lpt1")).toBe("is reserved");
+  expect(validateName("x".repeat(256))).toBe("is longer than 255 characters");
+});
+
+test("Number names before the extensions of files.", () => {
+  const taken = new Set(["a (2).json", "model (2).yada.json"]);
+  const isTaken = (name: string) => taken.has(name);
+  expect(numberName("a.json", false, isTaken)).toBe("a (3).json");
+  expect(numberName("model.yada.json", false, isTaken)).toBe(
+    "model (3).yada.json",
+  );
+  expect(numberName("my.dir", true, isTaken)).toBe("my.dir (2)");
+});
+
+test("Reject invalid names.", async () => {
+  await openDb(createDb(), async (db) => {
+    const invalid = await db
+      .transaction((trx) => trx.addFile("../x.json", { data: {} }))
+      .catch((ex) => ex);
+    expect(invalid).toBeInstanceOf(InvalidNameError);
+    expect(invalid.nodeName).toBe("../x.json");
+    expect(errorStatus(invalid)).toBe(422);
+    await expect(
+      db.transaction((trx) => trx.addDirectory("a/b")),
+    ).rejects.toThrow(`Invalid name, contains a path separator - "a/b"`);
+    await expect(
+      db.transaction((trx) => trx.rename(trx.id("a.json")!, "con.json")),
+    ).rejects.toThrow(InvalidNameError);
+    // Files without a configured extension wouldn't be loaded again.
+    await expect(
+      db.transaction((trx) => trx.addFile("f.txt", { data: {} })),
+    ).rejects.toThrow(`Invalid name, doesn't end with .json - "f.txt"`);
+    await expect(
+      db.transaction((trx) => trx.rename(trx.id("a.json")!, "a")),
+    ).rejects.toThrow(InvalidNameError);
+    await expect(
+      db.transaction((trx) => trx.addDirectory("d.txt")),
+    ).resolves.toBeTypeOf("string");
+  });
+});
+
+test("Reject names which conflict ignoring case.", async () => {
+  await openDb(createDb(), async (db) => {
+    const conflict = await db
+      .transaction((trx) => trx.addFile("A.json", { data: {} }))
+      .catch((ex) => ex);
+    expect(conflict).toBeInstanceOf(NameConflictError);
+    expect(conflict.path).toBe("A.json");
+    await expect(
+      db.transaction((trx) => trx.rename(trx.id("dir/b.json")!, "B.json")),
+    ).resolves.toBe("dir/B.json");
+    await db.transaction((trx) => trx.addFile("b.json", { data: {} }));
+    await expect(
+      db.transaction((trx) => trx.move(trx.id("b.json")!, trx.id("dir")!)),
+    ).rejects.toThrow(`Name already exists - "dir/b.json"`);
+  });
+});
+
+test("Overwrite or number conflicting names.", async () => {
+  await openDb(createDb(), async (db) => {
+    await db.transaction((trx) =>
+      trx.addFile("A.json", { data: { a: 2 }, onConflict: "overwrite" }),
+    );
+    await expect(
+      db.transaction(async (trx) => [
+        trx.id("a.json"),
+        await trx.read("A.json"),
+      ]),
+    ).resolves.toEqual([undefined, { a: 2 }]);
+
+    const renamed = await db.transaction(async (trx) => {
+      const id = await trx.addFile("a.json", {
+        data: {},
+        onConflict: "rename",
+      });
+      return trx.path(id);
+    });
+    expect(renamed).toBe("a (2).json");
+
+    await db.transaction((trx) => trx.addFile("b.json", { data: {} }));
+    await expect(
+      db.transaction((trx) =>
+        trx.move(trx.id("b.json")!, trx.id("dir")!, { onConflict: "rename" }),
+      ),
+    ).resolves.toBe("dir/b (2).json");
+    await expect(
+      db.transaction(async (trx) => {
+        const id = await trx.addDirectory("Dir", null, {
+          onConflict: "rename",
+        });
+        return trx.path(id);
+      }),
+    ).resolves.toBe("Dir (2)");
+  });
+});
@@ -0,0 +1,60 @@
+import Path from "node:path";
+import { bench, describe } from "vitest";
+// Packages
+import { Database, type MemorySeed } from "@/index";
+// Local
+import { fixtures_path } from "@/tests/common/projects";
+
+/** 100 directories with 10 sub-directories of 10 files, 11,100 nodes. */
+const files: MemorySeed = {};
+for (let d = 0; d < 100; d++) {
+  for (let s = 0; s < 10; s++) {
+    for (let f = 0; f < 10; f++) {
+      files[`dir${d}/sub${s}/file${f}.json`] = { d, s, f };
+    }
+  }
+}
+const paths = Object.keys(files);
+
+const db = new Database({
+  root: Path.join(fixtures_path, "not-a-project"),
+  type: "memory",
+  memory: { files },
+});
+await db.open();
+
+describe("Resolve paths", () => {
+  bench("id() of 1,000 file paths", async () => {
+    await db.transaction((trx) => {
+      for (let i = 0; i < paths.length; i += 10) {
+        trx.id(paths[i]!);
+      }
+    });
+  });
+  bench("path() of 1,000 file ids", async () => {
+    await db.transaction((trx) => {
+      for (let i = 0; i < paths.length; i += 10) {
+        trx.path(trx.id(paths[i]!)!);
+      }
+    });
+  });
+});
+
+describe("Update paths", () => {
+  bench("rename a directory of 110 nodes and back", async () => {
+    await db.transaction(async (trx) => {
+      const id = trx.id("dir50")!;
+      await trx.rename(id, "renamed");
+      await trx.rename(id, "dir50");
+    });
+  });
+  bench("move a directory of 11 nodes and back", async () => {
+    await db.transaction(async (trx) => {
+      const id = trx.id("dir50/sub5")!;
+      await trx.move(id, trx.id("dir51")!);
+      await trx.rename(id, "moved");
+      await trx.move(id, trx.id("dir50")!);
+      await trx.rename(id, "sub5");
+    });
+  });
+});
@@ -0,0 +1,75 @@
+import Path from "node:path";
+import { expect, test } from "vitest";
+// Packages
+import { Database, type MemorySeed, type Transaction } from "@/index";
+// Local
+import { fixtures_path, openDb } from "@/tests/common/projects";
+
+/** Returns a seed of `dirs` directories, each with `files` files. */
+function createSeed(dirs: number, files: number) {
+  const seed: MemorySeed = {};
+  for (let d = 0; d < dirs; d++) {
+    for (let f = 0; f < files; f++) {
+      seed[`dir${d}/sub/file${f}.json`] = { d, f };
+    }
+  }
+  return seed;
+}
+
+/** Expects every node's path to resolve to it's id. */
+function expectPathsResolve(trx: Transaction) {
+  let count = 0;
+  trx.eachNode(null, (node) => {
+    expect(trx.id(node.path)).toBe(node.id);
+    expect(trx.path(node.id)).toBe(node.path);
+    count += 1;
+  });
+  return count;
+}
+
+test("Resolve paths after adding, moving, renaming and removing.", async () => {
+  let err: unknown;
+  const db = new Database({
+    root: Path.join(fixtures_path, "not-a-project"),
+    type: "memory",
+    memory: { files: createSeed(3, 3) },
+  });
+  await openDb(db, async (db) => {
+    await db.transaction(async (trx) => {
+      // Files of the same name at the same depth resolve by their parents.
+      const ids = [0, 1, 2].map((d) => trx.id(`dir${d}/sub/file1.json`));
+      expect(new Set(ids).size).toBe(3);
+      expect(await trx.read("dir2/sub/file1.json")).toEqual({ d: 2, f: 1 });
+      expect(trx.id("dir3/sub/file1.json")).toBeUndefined();
+      expect(expectPathsResolve(trx)).toBe(15);
+    });
+    await db.transaction(async (trx) => {
+      const dir0 = trx.id("dir0")!;
+      const fileId = trx.id("dir0/sub/file0.json")!;
+      await trx.rename(dir0, "renamed");
+      await trx.move(trx.id("renamed/sub")!, trx.id("dir1/sub")!);
+      await trx.addFile("file0.json", { data: {}, pId: dir0 });
+      expect(trx.id("dir0/sub/file0.json")).toBeUndefined();
+      expect(trx.id("dir1/sub/file0.json")).not.toBe(fileId);
+      expect(trx.id("dir1/sub/sub/file0.json")).toBe(fileId);
+      expect(trx.id("renamed/file0.json")).toBeDefined();
+      await trx.remove(trx.id("dir2")!);
+      expect(trx.id("dir2/sub/file0.json")).toBeUndefined();
+      expect(expectPathsResolve(trx)).toBe(11);
+    });
+    // Changes are reverted when a transaction throws.
+    await db
+      .transaction(async (trx) => {
+        await trx.remove(trx.id("renamed")!);
+        await trx.rename(trx.id("dir1")!, "renamed");
+        throw new Error("Testing rollback");
+      })
+      .catch(() => undefined);
+    await db.transaction(async (trx) => {
+      expect(trx.id("renamed/file0.json")).toBeDefined();
+      expect(trx.id("dir1/sub/sub/file0.json")).toBeDefined();
+      expect(expectPathsResolve(trx)).toBe(11);
+    });
+  }).catch((ex) => (err = ex));
+  expect(err).toBeUndefined();
+});
@@ -0,0 +1,54 @@
+import Path from "node:path";
+import FS from "node:fs";
+import OS from "node:os";
+import { afterAll, expect, test } from "vitest";
+// Packages
+import { Database } from "@/index";
+// Local
+import { openDb } from "@/tests/common/projects";
+
+const dir = FS.mkdtempSync(Path.join(OS.tmpdir(), "jdex-sqlite-"));
+const root = Path.join(dir, "db/data.sqlite");
+
+afterAll(() => {
+  FS.rmSync(dir, { force: true, recursive: true });
+});
+
+test("Store directories and files in a SQLite file.", async () => {
+  let err: unknown;
+  let ids = { dirId: "", fileId: "" };
+  await openDb(new Database({ root, type: "sqlite" }), async (db) => {
+    ids = await db.transaction(async (trx) => {
+      const dirId = await trx.addDirectory("dir");
+      const fileId = await trx.addFile("a.json", {
+        data: { a: 1 },
+        pId: dirId,
+      });
+      return { dirId, fileId };
+    });
+    await db
+      .transaction(async (trx) => {
+        await trx.write(ids.fileId, { a: 2 });
+        throw new Error("Testing rollback");
+      })
+      .catch(() => undefined);
+    await db.transaction(async (trx) => {
+      await trx.rename(ids.dirId, "renamed");
+      await trx.addFile("b.json", { data: [1] });
+      const bId = trx.id("b.json")!;
+      await trx.remove(bId);
+    });
+  }).catch((ex) => (err = ex));
+  expect(err).toBeUndefined();
+  expect(FS.statSync(root).isFile()).toBe(true);
+
+  await openDb(new Database({ root, type: "sqlite" }), async (db) => {
+    await db.transaction(async (trx) => {
+      expect(trx.id("renamed")).toBe(ids.dirId);
+      expect(trx.id("renamed/a.json")).toBe(ids.fileId);
+      expect(trx.id("b.json")).toBeUndefined();
+      expect(await trx.get(ids.fileId)).toEqual({ a: 1 });
+    });
+  }).catch((ex) => (err = ex));
+  expect(err).toBeUndefined();
+});
@@ -0,0 +1,179 @@
+import Path from "node:path";
+import FS from "node:fs";
+import Http from "node:http";
+import type { AddressInfo } from "node:net";
+import OS from "node:os";
+import type { SyncClientMessage, SyncServerMessage } from "jdex";
+import { afterAll, beforeAll, expect, test } from "vitest";
+import { WebSocket } from "ws";
+// Packages
+import { Database, SyncServer } from "@/index";
+
+const root = FS.mkdtempSync(Path.join(OS.tmpdir(), "jdex-sync-"));
+const db = new Database({ root });
+const server = Http.createServer();
+const sync = new SyncServer(db, { path: "/sync" });
+sync.attach(server);
+let url = "";
+
+beforeAll(async () => {
+  await db.open();
+  await new Promise<void>((resolve) => server.listen(0, resolve));
+  url = `ws://localhost:${(server.address() as AddressInfo).port}/sync`;
+});
+
+afterAll(async () => {
+  await sync.close();
+  await new Promise((resolve) => server.close(resolve));
+  await db.close();
+  FS.rmSync(root, { force: true, recursive: true });
+});
+
+/** Connects a client which collects the messages it receives. */
+async function connect() {
+  const ws = new WebSocket(url);
+  const messages: SyncServerMessage[] = [];
+  const waiting = new Set<() => void>();
+  ws.on("message", (data) => {
+    messages.push(JSON.parse(data.toString()));
+    for (const resolve of waiting) resolve();
+  });
+  await new Promise((resolve) => ws.once("open", resolve));
+  return {
+    messages,
+    send(message: SyncClientMessage) {
+      ws.send(JSON.stringify(message));
+    },
+    /** Waits until a received message matches. */
+    async receive(match: (message: any) => boolean): Promise<any> {
+      for (;;) {
+        const found = messages.find(match);
+        if (found) return found;
+        await new Promise<void>((resolve) => {
+          const done = () => {
+            waiting.delete(done);
+            resolve();
+          };
+          waiting.add(done);
+        });
+      }
+    },
+    close() {
+      ws.close();
+    },
+  };
+}
+
+test("Sync changes between clients.", async () => {
+  const setupId = await db.transaction(async (trx) => {
+    const dirId = await trx.addDirectory("dir");
+    await trx.addFile("outside.json", { data: { a: 0 } });
+    return dirId;
+  });
+  const a = await connect();
+  const b = await connect();
+  a.send({ type: "subscribe", id: 1 });
+  b.send({ type: "subscribe", id: 1, within: setupId });
+  const snapshot = await a.receive((it) => it.type === "snapshot");
+  expect(snapshot.nodes.map((it: any) => it.path)).toEqual([
+    "dir",
+    "outside.json",
+  ]);
+  expect((await b.receive((it) => it.type === "snapshot")).nodes).toEqual([]);
+
+  b.send({
+    type: "mutate",
+    id: 2,
+    mutations: [
+      { op: "addFile", name: "a.json", data: { a: 1 }, pId: setupId },
+    ],
+  });
+  const added = await b.receive((it) => it.type === "result" && it.re === 2);
+  const [fileId] = added.result;
+  // Changes made by a client's own mutate are tagged with it's message id.
+  expect((await b.receive((it) => it.type === "changes")).re).toBe(2);
+  const changes = await a.receive((it) => it.type === "changes");
+  expect(changes.re).toBeUndefined();
+  expect(changes.changes[0]).toMatchObject({
+    type: "added",
+    node: { id: fileId, path: "dir/a.json" },
+  });
+
+  a.send({
+    type: "mutate",
+    id: 3,
+    mutations: [
+      {
+        op: "patch",
+        id: fileId,
+        patch: [{ op: "replace", path: "/a", value: 2 }],
+      },
+    ],
+  });
+  const patched = await b.receive(
+    (it) => it.type === "changes" && it.changes[0].type === "changed",
+  );
+  expect(patched.changes[0].patch).toEqual([
+    { op: "replace", path: "/a", value: 2 },
+  ]);
+  b.send({ type: "get", id: 4, ids: [fileId] });
+  expect((await b.receive((it) => it.re === 4)).result).toEqual([{ a: 2 }]);
+
+  a.send({ type: "mutate", id: 5, mutations: [{ op: "remove", id: "nope" }] });
+  expect((await a.receive((it) => it.re === 5)).result).toEqual([false]);
+  a.send({
+    type: "mutate",
+    id: 6,
+    mutations: [{ op: "write", id: "nope", data: 1 }],
+  });
+  expect((await a.receive((it) => it.re === 6)).type).toBe("error");
+
+  // Changes outside of the subscribed directory aren't sent.
+  const count = b.messages.length;
+  await db.transaction((trx) => trx.write(trx.id("outside.json")!, { a: 1 }));
+  await a.receive(
+    (it) => it.type === "changes" && it.changes[0].node.name === "outside.json",
+  );
+  expect(b.messages.length).toBe(count);
+  a.close();
+  b.close();
+});
+
+test("Roll back remote transactions when a client disconnects.", async () => {
+  const a = await connect();
+  a.send({ type: "begin", id: 1 });
+  const { result: trx } = await a.receive((it) => it.re === 1);
+  a.send({
+    type: "call",
+    id: 2,
+    method: "addFile",
+    args: ["remote.json", { data: 1 }],
+    trx,
+  });
+  await a.receive((it) => it.re === 2);
+  a.close();
+  // The next transaction runs after the remote one is rolled back.
+  expect(await db.transaction(async (trx) => trx.id("remote.json"))).toBe(
+    undefined,
+  );
+});
+
+test("Reply with an error to malformed messages.", async () => {
+  const a = await connect();
+  for (const message of [null, 1, [], { type: "begin" }]) {
+    const count = a.messages.length;
+    a.send(message as any);
+    await a.receive((it) => a.messages.indexOf(it) >= count);
+    expect(a.messages[count]).toMatchObject({
+      type: "error",
+      error: { name: "HttpError", message: "Invalid message." },
+    });
+  }
+  // The connection keeps working.
+  a.send({ type: "begin", id: 1 });
+  const begun = await a.receive((it) => it.re === 1);
+  expect(begun.type).toBe("result");
+  a.send({ type: "rollback", id: 2, trx: begun.result });
+  await a.receive((it) => it.re === 2);
+  a.close();
+});
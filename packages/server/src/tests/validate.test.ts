@@ -0,0 +1,87 @@
+import Path from "node:path";
+import { expect, test } from "vitest";
+import { Type } from "@sinclair/typebox";
+// Packages
+import {
+  Database,
+  type ILogger,
+  type MemoryDriver,
+  ValidationError,
+} from "@/index";
+// Local
+import { fixtures_path } from "@/tests/common/projects";
+
+/** Returns a logger which records the message of each warning. */
+function createLogger() {
+  const warnings: string[] = [];
+  const logger: ILogger = {
+    debug: () => {},
+    error: () => {},
+    log: () => {},
+    warn: (message) => warnings.push(message),
+  };
+  return { logger, warnings };
+}
+
+function createDb(logger: ILogger) {
+  const db = new Database<any>({
+    root: Path.join(fixtures_path, "not-a-project"),
+    type: "memory",
+    logger,
+    memory: {
+      files: {
+        "a.yada.json": { yada: "1" },
+        "b.yada.json": { yada: 2 },
+      },
+    },
+  });
+  db.schemas.set("yada", {
+    files: ["**/*.yada.json"],
+    schema: Type.Object({ yada: Type.Number() }),
+  });
+  db.indexes.set("yada", { files: "**/*.yada.json", field: "yada" });
+  return db;
+}
+
+test("Open and report invalid files.", async () => {
+  const { logger, warnings } = createLogger();
+  const db = createDb(logger);
+  await db.open({ validate: "report" });
+  try {
+    expect(warnings).toHaveLength(1);
+    expect(warnings[0]).toMatch(/Validation failed - "a\.yada\.json"/);
+    await expect(
+      db.transaction((trx) => trx.read("a.yada.json")),
+    ).resolves.toEqual({ yada: "1" });
+  } finally {
+    await db.close();
+  }
+});
+
+test("Refuse to open with invalid files.", async () => {
+  const { logger } = createLogger();
+  const db = createDb(logger);
+  const refused = await db.open({ validate: "refuse" }).catch((ex) => ex);
+  expect(refused).toBeInstanceOf(ValidationError);
+  expect(refused.issues).toHaveLength(1);
+  expect(refused.issues[0]).toMatchObject({
+    file: "a.yada.json",
+    path: "/yada",
+    schema: "yada",
+  });
+  // Nothing of the refused tree is kept.
+  const driver = db.driver as MemoryDriver;
+  expect(driver.getNodeByPath("a.yada.json")).toBeUndefined();
+  expect(() => driver.lookup("yada", 2)).toThrow("Index not found");
+  // It may be opened again, e.g. without validating.
+  await db.open();
+  try {
+    const ids = await db.transaction((trx) => [
+      trx.id("b.yada.json"),
+      trx.lookup("yada", 2),
+    ]);
+    expect(ids[1]).toEqual([ids[0]]);
+  } finally {
+    await db.close();
+  }
+});
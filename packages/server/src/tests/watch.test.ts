@@ -0,0 +1,72 @@
+import Path from "node:path";
+import FS from "node:fs";
+import OS from "node:os";
+import { afterAll, expect, test } from "vitest";
+// Packages
+import { Database } from "@/index";
+// Local
+import { openDb } from "@/tests/common/projects";
+
+const root = FS.mkdtempSync(Path.join(OS.tmpdir(), "jdex-watch-"));
+
+afterAll(() => {
+  FS.rmSync(root, { force: true, recursive: true });
+});
+
+/** Returns `true` once the condition is true or `false` after 2 seconds. */
+async function waitFor(condition: () => Promise<boolean>) {
+  for (let i = 0; i < 100; i++) {
+    if (await condition()) return true;
+    await new Promise((resolve) => setTimeout(resolve, 20));
+  }
+  return false;
+}
+
+test("Reconcile external changes to watched files.", async () => {
+  const db = new Database({ root, fs: { watch: { debounce: 10 } } });
+  const changes: string[] = [];
+  db.subscribe((events) => {
+    for (const { external, type, node } of events) {
+      if (external) changes.push(`${type} ${node.path}`);
+    }
+  });
+  await openDb(db, async (db) => {
+    // Add
+    FS.mkdirSync(Path.join(root, "dir"));
+    FS.writeFileSync(Path.join(root, "dir/a.json"), `{"a":1}`);
+    let fileId: string | undefined;
+    expect(
+      await waitFor(() =>
+        db.transaction((trx) => !!(fileId = trx.id("dir/a.json"))),
+      ),
+    ).toBe(true);
+    // Change
+    FS.writeFileSync(Path.join(root, "dir/a.json"), `{"a":2}`);
+    expect(
+      await waitFor(() =>
+        db.transaction(async (trx) => (await trx.get(fileId!))?.a === 2),
+      ),
+    ).toBe(true);
+    // Rename, keeping the id
+    FS.renameSync(Path.join(root, "dir/a.json"), Path.join(root, "b.json"));
+    expect(
+      await waitFor(() =>
+        db.transaction((trx) => trx.path(fileId!) === "b.json"),
+      ),
+    ).toBe(true);
+    // Remove
+    FS.rmSync(Path.join(root, "b.json"));
+    expect(
+      await waitFor(() =>
+        db.transaction((trx) => trx.path(fileId!) === undefined),
+      ),
+    ).toBe(true);
+  });
+  expect(changes).toEqual([
+    "added dir",
+    "added dir/a.json",
+    "changed dir/a.json",
+    "moved b.json",
+    "removed b.json",
+  ]);
+});
@@ -1,30 +1,184 @@
+import type { JSONPatchDocument } from "immutable-json-patch";
 import type { NodeInfo } from "jdex";
 
-export { NodeInfo };
+export { JSONPatchDocument, NodeInfo };
+
+/**
+ * A change made to a directory or file by a committed transaction or, when
+ * watching the file system, by another program.
+ */
+export type ChangeEvent = {
+  /** The directory or file info after the change, or before if removed. */
+  node: NodeInfo;
+  /** `true` if the change was made by another program. */
+  external: boolean;
+} & (
+  | { type: "added" }
+  | {
+      type: "changed";
+      /** Operations that apply the content change. */
+      patch: JSONPatchDocument;
+      /** Operations that revert the content change. */
+      inverse: JSONPatchDocument;
+    }
+  | {
+      type: "moved" | "renamed";
+      /** Path before the change. */
+      from: string;
+    }
+  | { type: "removed" }
+);
+
+/** A function called with the changes of each committed transaction. */
+export type ChangeListener = (changes: ChangeEvent[]) => void;
 
 /** Configuration data loaded by the Database. */
 export interface Config {
-  /** A relative or absolute path to the root data directory. */
+  /**
+   * A relative or absolute path to the root data directory, or to the
+   * database file when {@link type} is `"sqlite"`.
+   */
   root: string;
-  /** Type of driver. Defaults to `fs`. */
-  type?: "fs" | "sqlite";
+  /**
+   * Type of driver. Defaults to `fs`. The `sqlite` driver stores all
+   * directories and files in a single SQLite database file and requires the
+   * optional `better-sqlite3` package. The `memory` driver keeps them in
+   * memory only, loading the root directory if it exists.
+   */
+  type?: "fs" | "memory" | "sqlite";
   /** Config for the file system driver. */
   fs?: FsDriverConfig;
+  /** Config for the memory driver. */
+  memory?: MemoryDriverConfig;
+  /**
+   * Config for committing changes to the git repository which contains the
+   * root directory. Only supported by the `fs` driver.
+   */
+  git?: GitConfig;
+  /**
+   * Maximum number of changes kept in each node's undo history and in the
+   * database's undo history. Defaults to `100`. Set `0` to disable history.
+   */
+  historyDepth?: number;
 }
 
 export interface FsDriverConfig {
+  /**
+   * Extensions of the files to load, e.g. `[".json", ".jsonc"]`. Files ending
+   * with `.jsonc` or `.json5` may have comments and trailing commas, which are
+   * kept when they're changed. Others are read as JSON. Defaults to
+   * `[".json"]`.
+   */
+  extensions?: string[];
+  /**
+   * Patterns of paths to ignore, relative to the root, in `.gitignore`
+   * format. Paths matched by the `.jdexignore` files in any directory are
+   * ignored too. Ignored directories and files aren't loaded or watched and
+   * can't be added. Defaults to `["node_modules/"]`.
+   */
+  ignore?: string[];
+  /**
+   * Also ignore the paths ignored by the `.gitignore` files of the git
+   * repository containing the root.
+   */
+  gitignore?: boolean;
   /**
    * Disable cached ids by setting `false` or set a file path `string`. The
    * default path is `"./${configFileName}.ids.json"`
    */
   ids?: string | false;
+  /**
+   * Watch the root directory for changes made by other programs, e.g. an
+   * editor or `git checkout`, and update the database to match.
+   */
+  watch?: boolean | FsWatchConfig;
+  /**
+   * Load file content on first access instead of when opened, keeping a
+   * bounded amount of it loaded. Content that's changed stays loaded until
+   * it's written. Files with content that's not loaded can't be matched by
+   * content when watching, so they're seen as removed and added if renamed.
+   */
+  lazy?: boolean | FsLazyConfig;
+}
+
+export interface FsLazyConfig {
+  /**
+   * Maximum total size of loaded file content, in bytes of JSON text, before
+   * the least recently used is unloaded. Defaults to `67108864` (64 MiB).
+   */
+  cacheSize?: number;
+}
+
+export interface MemoryDriverConfig {
+  /** Directories and files to add when opened. */
+  files?: MemorySeed;
+}
+
+/**
+ * Directories and files by path, relative to the database root. Paths ending
+ * with `/` are directories, others are JSON files with the value as content.
+ * Missing parent directories are added.
+ * @example
+ * { "db/": null, "db/users.json": [{ "name": "Ada" }] }
+ */
+export type MemorySeed = Record<string, unknown>;
+
+export interface FsWatchConfig {
+  /**
+   * Milliseconds to wait after a change for more changes before updating the
+   * database. Defaults to `100`.
+   */
+  debounce?: number;
+}
+
+export interface GitConfig {
+  /**
+   * Commit the changes of each transaction made by the database, with a
+   * message listing the changed paths. Defaults to `false`.
+   */
+  autoCommit?: boolean;
+  /**
+   * Milliseconds to wait after a transaction for more transactions to commit
+   * together. Defaults to `0`, a commit for each transaction.
+   */
+  batch?: number;
+}
+
+/** A git commit which changed a directory or file. */
+export interface NodeRevision {
+  /** The commit hash. */
+  hash: string;
+  /** The author date. */
+  date: Date;
+  /** The author name. */
+  author: string;
+  /** The commit message subject. */
+  message: string;
+  /** Path of the node at the commit, relative to the database root. */
+  path: string;
 }
 
+/**
+ * A logger such as `console`. Entries have a message, optionally followed by
+ * an object of structured data, e.g. `{ path, ms }`, or an error.
+ */
 export interface ILogger {
+  /** Logs details of driver operations, e.g. file writes and timings. */
+  debug(message: string, ...optionalParams: any[]): void;
+  /** Logs failures which couldn't be reported to a caller. */
+  error(message: string, ...optionalParams: any[]): void;
+  /** Logs information, e.g. output of `Database.printDirectory`. */
   log(message: string, ...optionalParams: any[]): void;
+  /** Logs problems which were recovered from. */
   warn(message: string, ...optionalParams: any[]): void;
 }
 
+/**
+ * Minimum level of logged entries, where `"info"` is {@link ILogger.log}.
+ * `"silent"` logs nothing.
+ */
+export type LogLevel = "debug" | "info" | "warn" | "error" | "silent";
+
 export interface CreateNodeOptions {
   /** Cached id if already known. */
   id?: string;
@@ -39,12 +193,36 @@ export interface CreateNodeStats {
   ctime?: Date | number;
 }
 
-export interface Driver {
+export interface Driver<DB = any> {
   close(): Promise<void>;
-  createTransaction(): Transaction;
-  open(): Promise<void>;
+  createTransaction(): Transaction<DB>;
+  open(options?: OpenOptions): Promise<OpenResult>;
 }
 
+/** A reversible change recorded in a node's undo history. */
+export type NodeChange =
+  | {
+      type: "content";
+      /** Operations that apply the change. */
+      patch: JSONPatchDocument;
+      /** Operations that revert the change. */
+      inverse: JSONPatchDocument;
+    }
+  | {
+      type: "move";
+      /** Parent id before the move, `undefined` for root. */
+      from?: string;
+      /** Parent id after the move, `undefined` for root. */
+      to?: string;
+    }
+  | {
+      type: "rename";
+      /** Name before the change. */
+      from: string;
+      /** Name after the change. */
+      to: string;
+    };
+
 export type MapNodeInfoFn<T = NodeInfo> = (node: NodeInfo) => T;
 
 export function MapNodeInfoDefault(node: NodeInfo): NodeInfo {
@@ -58,6 +236,51 @@ export type NodeVisitorFn<T = NodeInfo> = (
   children: T[],
 ) => boolean | undefined | void;
 
+/**
+ * Typed access to the files of a schema, e.g. `trx.model("users")`.
+ * @typeParam T - The file content type of the schema.
+ */
+export interface Model<T> {
+  /** Name of the schema. */
+  readonly name: string;
+  /** Adds a file to the given parent node id and returns a new node id. */
+  addFile(
+    name: string,
+    info: { data: T; pId?: string | null } & NameConflictOptions,
+  ): Promise<string>;
+  /** Returns the content of the given file id or `undefined` if not found. */
+  get(id: string): Promise<T | undefined>;
+  /** Returns the content of the file at the given path or `undefined`. */
+  read(path: string): Promise<T | undefined>;
+  /** Updates the content of the given file id and returns the new content. */
+  update(id: string, fn: (data: T) => T | void): Promise<T>;
+  /** Writes the content of the given file id. */
+  write(id: string, data: T): Promise<void>;
+}
+
+/**
+ * Declares a secondary index of files by values in their content.
+ * @example
+ * db.indexes.set("tableName", {
+ *   files: "**\/*.db-table.json",
+ *   field: "table.name",
+ *   unique: true,
+ * });
+ */
+export interface IndexDefinition {
+  /** Glob pattern(s) of the files to index, relative to the database root. */
+  files: string | string[];
+  /** Dot separated path of the field to index, e.g. `"table.name"`. */
+  field?: string;
+  /**
+   * Returns the value, or array of values, to index for the file content.
+   * Only `string`, `number` and `boolean` values are indexed.
+   */
+  extract?: (content: any, path: string) => unknown;
+  /** `true` to refuse writing a value already indexed for another file. */
+  unique?: boolean;
+}
+
 export interface NodeVisitorIndex {
   /** Depth within the Database source directory. `0` is a root node.  */
   depth: number;
@@ -65,13 +288,53 @@ export interface NodeVisitorIndex {
   order: number;
 }
 
+/** The result of applying a JSON Patch to file content. */
+export interface PatchResult {
+  /** The operations that were applied. */
+  patch: JSONPatchDocument;
+  /** The operations which revert the applied {@link patch}. */
+  inverse: JSONPatchDocument;
+}
+
+/** A file matched by a query and the result of it's query expression. */
+export interface QueryResult<T = unknown> {
+  /** The matching file. */
+  node: NodeInfo;
+  /** The result of the query expression for the file content. */
+  result: T;
+}
+
+/**
+ * What to do when a directory or file would have the same name as another in
+ * the same directory, ignoring case:
+ * - `"error"` - Throw a {@link NameConflictError}. The default.
+ * - `"overwrite"` - Remove the other directory or file first.
+ * - `"rename"` - Number the name, e.g. `"users (2).json"`.
+ */
+export type NameConflictMode = "error" | "overwrite" | "rename";
+
+export interface NameConflictOptions {
+  /** What to do when the name is taken. Defaults to `"error"`. */
+  onConflict?: NameConflictMode;
+}
+
 export interface QueryInterface {
-  /** Adds a directory to the given parent node id and returns a new node id. */
-  addDirectory(name: string, pId?: string | null): Promise<string>;
-  /** Adds a file to the given parent node id and returns a new node id. */
+  /**
+   * Adds a directory to the given parent node id and returns a new node id.
+   * Throws an {@link InvalidNameError} if the name isn't allowed.
+   */
+  addDirectory(
+    name: string,
+    pId?: string | null,
+    options?: NameConflictOptions,
+  ): Promise<string>;
+  /**
+   * Adds a file to the given parent node id and returns a new node id.
+   * Throws an {@link InvalidNameError} if the name isn't allowed.
+   */
   addFile(
     name: string,
-    info: { data: unknown; pId?: string | null },
+    info: { data: unknown; pId?: string | null } & NameConflictOptions,
   ): Promise<string>;
   /**
    * Traverses the tree in depth-first order calling the given callback for
@@ -97,27 +360,121 @@ export interface QueryInterface {
     mapNodeAs?: MapNodeInfoFn<T>,
   ): void;
   findModels(args: any): any[];
+  /**
+   * Returns the content of the given file id or `undefined` if id not found.
+   * The returned content should be treated as read-only, use {@link update}
+   * to make changes to it.
+   */
+  get<T = any>(id: string): Promise<T | undefined>;
   /**
    * Returns the id used to refer to the given path. The path be relative to
    * the database root, e.g. `"my/folder/file.json"` or `"my/folder"`. Returns
    * `undefined` if path not found.
    */
   id(path: string): string | undefined;
+  /**
+   * Returns the ids of the files indexed with the given value by the named
+   * index. Throws an `IndexNotFoundError` if the index isn't configured. See
+   * {@link Database.indexes}.
+   */
+  lookup(index: string, value: string | number | boolean): string[];
   /**
    * Moves a directory or file id into a new parent directory (or root, when
    * `toId` is `null`) and returns the new path.
    */
-  move(id: string, toId: string | null): Promise<string>;
+  move(
+    id: string,
+    toId: string | null,
+    options?: NameConflictOptions,
+  ): Promise<string>;
+  /**
+   * Applies RFC 6902 JSON Patch operations to the content of the given file
+   * id and returns the applied and inverse operations. Throws an
+   * `InvalidPatchError` if an operation can't be applied, e.g. to a missing
+   * path.
+   * @example
+   * const { inverse } = await trx.patch(id, [
+   *   { op: "replace", path: "/table/name", value: "people" },
+   * ]);
+   */
+  patch(id: string, operations: JSONPatchDocument): Promise<PatchResult>;
   /**
    * Returns the path for the given node id, the root path if id is `null`.
    * and `undefined` if id not found.
    */
   path(id: string | null): string | undefined;
+  /**
+   * Runs a JMESPath expression against the content of each file matching the
+   * given path glob pattern(s). Returns the files with their results, except
+   * those where the result is `null` or an empty array. Throws an
+   * `InvalidQueryError` if the expression is invalid.
+   * See https://jmespath.org/specification.html
+   * @example
+   * // Tables with currency columns...
+   * const tables = await trx.query(
+   *   "**\/*.db-table.json",
+   *   "table.columns[?type == 'currency'].name",
+   * );
+   * for (const { node, result } of tables) {
+   *   console.log(node.path, "columns", result);
+   * }
+   */
+  query<T = unknown>(
+    files: string | string[],
+    expression: string,
+  ): Promise<QueryResult<T>[]>;
+  /**
+   * Returns the content of the file at the given path, relative to the
+   * database root, or `undefined` if path not found.
+   */
+  read<T = any>(path: string): Promise<T | undefined>;
   /** Removes a directory or file by id returning `true` if successful. */
   remove(id: string): Promise<boolean>;
-  /** Renames a directory or file by id and returns the new path. */
-  rename(id: string, name: string): Promise<string>;
+  /**
+   * Renames a directory or file by id and returns the new path. Throws an
+   * {@link InvalidNameError} if the name isn't allowed.
+   */
+  rename(
+    id: string,
+    name: string,
+    options?: NameConflictOptions,
+  ): Promise<string>;
+  /**
+   * Updates the content of the given file id with the value returned from
+   * `fn` and returns the new content. The `fn` is given a copy of the current
+   * content, which may be modified and returned or left to be written if
+   * `fn` returns `undefined`.
+   */
+  update<T = any>(id: string, fn: (data: T) => T | void): Promise<T>;
+  /** Writes the content of the given file id. */
+  write(id: string, data: unknown): Promise<void>;
 }
+export interface OpenOptions {
+  /**
+   * Validate existing files against their matching schemas while opening.
+   * - `"report"` logs a warning for each invalid file.
+   * - `"refuse"` throws a {@link ValidationError} listing all invalid files.
+   */
+  validate?: "report" | "refuse";
+}
+
+export interface OpenResult {
+  /**
+   * Files left out of the database because they couldn't be read, e.g. files
+   * partially written when a program crashed. Only reported when content is
+   * loaded on open, not lazily.
+   */
+  skipped: SkippedFile[];
+}
+
+/** A file which couldn't be read when opening the database. */
+export interface SkippedFile {
+  /** Path of the file, relative to the database root. */
+  path: string;
+  /** The reason the file couldn't be read. */
+  error: string;
+}
+
 /** See https://stackoverflow.com/questions/51465182/how-to-remove-index-signature-using-mapped-types/66252656#66252656 */
 export type RemoveIndex<T> = {
   [K in keyof T as string extends K
@@ -130,23 +487,84 @@ export type RemoveIndex<T> = {
 };
 
 export interface SchemaDetails<TSchema = any> {
+  /**
+   * Glob patterns of file paths, relative to the database root, which must
+   * validate against the schema, e.g. `["**\/*.db-table.json"]`.
+   */
   files?: string[];
   schema?: TSchema;
 }
 
+/** A value that failed validation against a schema. */
+export interface SchemaError {
+  /** JSON Pointer to the invalid value, e.g. `"/table/name"`. */
+  path: string;
+  message: string;
+  value?: unknown;
+}
+
 export interface SchemaInfo<DB, TSchema = any> extends SchemaDetails<TSchema> {
   name: keyof DB & string;
 }
 
 export interface SchemaProvider<DB, TSchema = any> {
+  /** Returns errors from validating the value with the named schema. */
+  errors(name: keyof DB & string, value: unknown): SchemaError[];
   get(name: keyof DB & string): SchemaInfo<DB, TSchema> | undefined;
+  /** Returns the schemas with `files` patterns that match the given path. */
+  match(path: string): SchemaInfo<DB, TSchema>[];
   set(name: keyof DB & string, details: SchemaDetails<TSchema>): void;
   setAll(byName: { [P in keyof DB]?: SchemaDetails<TSchema> }): void;
 }
 
-export interface Transaction extends QueryInterface {
-  commit(): void;
-  rollback(): void;
+/**
+ * @typeParam DB - The database file types interface. See {@link Database}.
+ */
+export interface Transaction<DB = any> extends QueryInterface {
+  /** `true` after the transaction was committed or rolled back. */
+  readonly completed: boolean;
+  /**
+   * Applies all staged changes. Called by {@link Database.transaction} after
+   * the transaction callback returns, if not called by the callback itself.
+   */
+  commit(): Promise<void>;
+  /**
+   * Discards all staged changes. Called by {@link Database.transaction} when
+   * the transaction callback throws, if not completed by the callback itself.
+   */
+  rollback(): Promise<void>;
+  /**
+   * Returns typed access to the files matching the `files` patterns of the
+   * named schema. Files that don't match are refused with a
+   * `SchemaMismatchError` and data written is validated against the schema.
+   * @example
+   * const users = trx.model("users");
+   * const user = await users.read("users/admin.user.json");
+   * await users.update(id, (user) => {
+   *   user.roles.push("editor");
+   * });
+   */
+  model<N extends keyof DB & string>(name: N): Model<DB[N]>;
+  /**
+   * Re-applies the last undone change of the given node id, or of the node
+   * most recently undone when no id is given. Returns `true` if redone.
+   */
+  redo(id?: string): Promise<boolean>;
+  /**
+   * Reverts the last change of the given node id, or of the node most
+   * recently changed when no id is given. Returns `true` if undone.
+   */
+  undo(id?: string): Promise<boolean>;
+}
+
+/** A value in a file that failed validation against a schema. */
+export interface ValidationIssue extends SchemaError {
+  /** Path of the file relative to the database root. */
+  file: string;
+  /** Name of the schema. */
+  schema: string;
 }
 
-export type TransactionCallback<T = any> = (trx: Transaction) => T | Promise<T>;
+export type TransactionCallback<T = any, DB = any> = (
+  trx: Transaction<DB>,
+) => T | Promise<T>;
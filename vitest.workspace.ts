@@ -12,6 +12,7 @@ export default defineWorkspace([
       name: "jdex",
       environment: "node",
       include: ["packages/jdex/src/**/*.test.{ts,js}"],
+      benchmark: { include: ["packages/jdex/src/**/*.bench.{ts,js}"] },
     },
     plugins: [tsconfigPaths],
   },
@@ -20,6 +21,7 @@ export default defineWorkspace([
       name: "server",
       environment: "node",
       include: ["packages/server/src/**/*.test.{ts,js}"],
+      benchmark: { include: ["packages/server/src/**/*.bench.{ts,js}"] },
     },
     plugins: [tsconfigPaths],
   },
@@ -28,6 +30,7 @@ export default defineWorkspace([
       name: "client",
       environment: "node",
       include: ["packages/client/src/**/*.test.{ts,js}"],
+      benchmark: { include: ["packages/client/src/**/*.bench.{ts,js}"] },
     },
     plugins: [tsconfigPaths],
   },